@@ -0,0 +1,61 @@
+// Create or update a user that can sign in with email and password.
+//
+//   npm run user:create -- --email admin@example.com --password secret --role Admin
+//   npm run user:create -- --email ann@example.com --password secret --attributes '{"department":"sales"}'
+import { hashPassword } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { roles } from '@/lib/roles'
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+function isJsonObject(value: string): boolean {
+  try {
+    const parsed = JSON.parse(value)
+    return !!parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+  } catch {
+    return false
+  }
+}
+
+async function main() {
+  const email = readOption('email')
+  const password = readOption('password')
+  const name = readOption('name')
+  const role = readOption('role') || 'Viewer'
+  const attributes = readOption('attributes')
+
+  if (!email || !password) {
+    console.error('Usage: npm run user:create -- --email <email> --password <password> [--name <name>] [--role <role name>] [--attributes <json>]')
+    process.exit(1)
+  }
+
+  if (attributes && !isJsonObject(attributes)) {
+    console.error('--attributes must be a JSON object')
+    process.exit(1)
+  }
+
+  await roles.ensureDefaults()
+  if (!(await roles.findByName(role))) {
+    console.error(`Role '${role}' does not exist`)
+    process.exit(1)
+  }
+
+  const passwordHash = await hashPassword(password)
+  const user = await db.user.upsert({
+    where: { email },
+    update: { passwordHash, role, ...(name ? { name } : {}), ...(attributes ? { attributes } : {}) },
+    create: { email, passwordHash, role, name, attributes },
+  })
+
+  console.log(`User ${user.email} saved with role ${user.role}`)
+}
+
+main()
+  .catch(error => {
+    console.error('Error creating user:', error)
+    process.exit(1)
+  })
+  .finally(() => db.$disconnect())
@@ -0,0 +1,19 @@
+// Purge records that have been in the trash longer than the retention period
+// of their model. The custom server runs this every hour; schedule it with
+// cron when the app is started with `next start` instead.
+//
+//   npm run trash:purge
+import { db, recordsDb } from '@/lib/db'
+import { trashRetention } from '@/lib/trash-retention'
+
+async function main() {
+  const purged = await trashRetention.purgeExpired()
+  console.log(`Purged ${purged} record(s)`)
+}
+
+main()
+  .catch(error => {
+    console.error('Error purging the trash:', error)
+    process.exit(1)
+  })
+  .finally(() => Promise.all([db.$disconnect(), recordsDb.$disconnect()]))
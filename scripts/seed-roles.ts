@@ -0,0 +1,21 @@
+// Create the default Admin, Manager and Viewer roles on an empty database and
+// move users from the old ADMIN/MANAGER/VIEWER values to those roles.
+//
+//   npm run roles:seed
+import { db } from '@/lib/db'
+import { roles } from '@/lib/roles'
+
+async function main() {
+  await roles.ensureDefaults()
+
+  for (const role of await roles.list()) {
+    console.log(`${role.name}${role.isAdmin ? ' (admin)' : ''}: ${role.userCount} user(s)`)
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('Error seeding roles:', error)
+    process.exit(1)
+  })
+  .finally(() => db.$disconnect())
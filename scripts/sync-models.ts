@@ -0,0 +1,54 @@
+// Report drift between the ModelDefinition table and the /models JSON files,
+// or reconcile it in one direction. Destructive migrations need --confirm.
+//
+//   npm run models:sync
+//   npm run models:sync -- --direction db
+//   npm run models:sync -- --direction files --confirm
+import { db, recordsDb } from '@/lib/db'
+import { modelSync, SyncDirection, syncDirections } from '@/lib/model-sync'
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+async function main() {
+  const direction = readOption('direction')
+  const confirm = process.argv.includes('--confirm')
+
+  if (direction && !(syncDirections as readonly string[]).includes(direction)) {
+    console.error(`Usage: npm run models:sync -- [--direction ${syncDirections.join('|')}] [--confirm]`)
+    process.exit(1)
+  }
+
+  if (!direction) {
+    const drift = await modelSync.detect()
+    for (const item of drift) {
+      console.log(`${item.kind}: ${item.description}`)
+    }
+    console.log(drift.length === 0 ? 'Models are in sync' : `${drift.length} model(s) out of sync`)
+    return
+  }
+
+  const results = await modelSync.reconcile(direction as SyncDirection, null, confirm)
+  for (const result of results) {
+    console.log(`${result.status}: ${result.description}${result.error ? ` (${result.error})` : ''}`)
+    if (result.status === 'skipped') {
+      for (const change of result.plan?.changes || []) {
+        console.log(`  ${change.safe ? '•' : '⚠'} ${change.description}`)
+      }
+    }
+  }
+  console.log(results.length === 0 ? 'Models are in sync' : `Reconciled ${results.filter(result => result.status === 'reconciled').length} of ${results.length} model(s)`)
+
+  if (results.some(result => result.status !== 'reconciled')) {
+    process.exitCode = 1
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('Error syncing models:', error)
+    process.exit(1)
+  })
+  .finally(() => Promise.all([db.$disconnect(), recordsDb.$disconnect()]))
@@ -1,5 +1,7 @@
 // server.ts - Next.js Standalone + Socket.IO
+import { modelPersistence } from '@/lib/model-persistence';
 import { setupSocket } from '@/lib/socket';
+import { trashRetention } from '@/lib/trash-retention';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import next from 'next';
@@ -42,6 +44,12 @@ async function createCustomServer() {
 
     setupSocket(io);
 
+    // Load the models and watch /models so pulled changes go live
+    await modelPersistence.watch();
+
+    // Purge records that outlived the trash retention period of their model
+    trashRetention.start();
+
     // Start the server
     server.listen(currentPort, hostname, () => {
       console.log(`> Ready on http://${hostname}:${currentPort}`);
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuditQueryError, auditLog, parseAuditFilters } from '@/lib/audit'
+import { rbac } from '@/lib/rbac'
+
+// Read-only: the audit log has no endpoints that change or remove entries
+export async function GET(request: NextRequest) {
+  try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await rbac.hasSystemPermission(user, 'audit:read'))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const filters = parseAuditFilters(searchParams)
+    const page = await auditLog.query(filters)
+
+    return NextResponse.json({
+      data: page.data,
+      total: page.total,
+      limit: filters.limit,
+      offset: filters.offset,
+    })
+  } catch (error) {
+    if (error instanceof AuditQueryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    console.error('Error fetching audit log:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch audit log' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,284 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auditLog } from '@/lib/audit'
+import { withModelLifecycle } from '@/lib/model-lifecycle'
+import { modelPersistence } from '@/lib/model-persistence'
+import { rbac, User } from '@/lib/rbac'
+import { LinkError, recordLinks, ResolvedLink } from '@/lib/record-links'
+import { recordExpansion } from '@/lib/record-expansion'
+import { parseRecordQuery, QueryError } from '@/lib/record-query'
+import { RecordData, recordStore } from '@/lib/record-store'
+
+// Many-to-many links of a record: ?id=<id>&link=courses, or link=Student.courses
+// from the linked model. Listing needs read access to both models; attaching
+// and detaching (&target=<id>) need update access to both records.
+
+export const GET = withModelLifecycle(async (
+  request: NextRequest,
+  { params }: { params: { modelName: string } }
+) => {
+  try {
+    const { modelName } = params
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+    const linkName = searchParams.get('link')
+
+    if (!id || !linkName) {
+      return NextResponse.json(
+        { error: 'Record ID and link are required' },
+        { status: 400 }
+      )
+    }
+
+    const modelDef = await modelPersistence.loadModel(modelName)
+    if (!modelDef) {
+      return NextResponse.json(
+        { error: 'Model not found' },
+        { status: 404 }
+      )
+    }
+
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const resolved = await recordLinks.resolve(modelDef, linkName)
+    const { target } = resolved
+    if (
+      !(await rbac.checkPermission({ user, modelName, action: 'read' })) ||
+      !(await rbac.checkPermission({ user, modelName: target.name, action: 'read' }))
+    ) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const record = await recordStore.findById(modelDef, id)
+    if (!record || !rbac.passesPolicies(user, modelDef, 'read', record)) {
+      return NextResponse.json(
+        { error: 'Record not found' },
+        { status: 404 }
+      )
+    }
+
+    // The remaining parameters filter, sort and page the linked records
+    const queryParams = new URLSearchParams(searchParams)
+    queryParams.delete('link')
+    const query = parseRecordQuery(target, queryParams)
+
+    const hiddenField = [...query.filters, ...query.sort]
+      .map(clause => target.fields.find(field => field.name === clause.field))
+      .find(field => field && !rbac.canReadField(user, field))
+    if (hiddenField) {
+      return NextResponse.json(
+        { error: `Field '${hiddenField.name}' is not readable for your role` },
+        { status: 403 }
+      )
+    }
+
+    const expansions = await recordExpansion.parse(target, searchParams.get('expand'))
+    const forbidden = await recordExpansion.findForbidden(user, target, expansions)
+    if (forbidden) {
+      return NextResponse.json(
+        { error: forbidden },
+        { status: 403 }
+      )
+    }
+
+    const linked = await recordLinks.linkedCondition(resolved, id)
+    const policy = rbac.getPolicyFilter(user, target, 'read')
+    const page = await recordStore.findMany(target, query, policy
+      ? { clause: `(${linked.clause}) AND (${policy.clause})`, params: [...linked.params, ...policy.params] }
+      : linked)
+    const data = page.records.map(linkedRecord => rbac.filterReadableFields(user, target, linkedRecord))
+    await recordExpansion.expand(user, data, expansions)
+
+    return NextResponse.json({
+      data,
+      total: page.total,
+      limit: query.limit,
+      offset: query.cursor ? null : query.offset,
+      nextCursor: page.nextCursor,
+    })
+  } catch (error) {
+    if (error instanceof LinkError || error instanceof QueryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    console.error('Error fetching links:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch links' },
+      { status: 500 }
+    )
+  }
+})
+
+// Link the record to ?target=<id>
+export const POST = withModelLifecycle(async (
+  request: NextRequest,
+  { params }: { params: { modelName: string } }
+) => {
+  try {
+    const access = await authorizeLinkWrite(request, params.modelName)
+    if (access instanceof NextResponse) {
+      return access
+    }
+    const { user, resolved, record, targetRecord } = access
+
+    if (!(await recordLinks.attach(resolved, record.id, targetRecord.id))) {
+      return NextResponse.json({ message: 'Records are already linked' })
+    }
+    await auditLink(user, resolved, record, targetRecord, 'link')
+
+    return NextResponse.json({ message: 'Records linked successfully' }, { status: 201 })
+  } catch (error) {
+    if (error instanceof LinkError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    console.error('Error linking records:', error)
+    return NextResponse.json(
+      { error: 'Failed to link records' },
+      { status: 500 }
+    )
+  }
+})
+
+// Unlink the record from ?target=<id>
+export const DELETE = withModelLifecycle(async (
+  request: NextRequest,
+  { params }: { params: { modelName: string } }
+) => {
+  try {
+    const access = await authorizeLinkWrite(request, params.modelName)
+    if (access instanceof NextResponse) {
+      return access
+    }
+    const { user, resolved, record, targetRecord } = access
+
+    if (!(await recordLinks.detach(resolved, record.id, targetRecord.id))) {
+      return NextResponse.json(
+        { error: 'Records are not linked' },
+        { status: 404 }
+      )
+    }
+    await auditLink(user, resolved, record, targetRecord, 'unlink')
+
+    return NextResponse.json({ message: 'Records unlinked successfully' })
+  } catch (error) {
+    if (error instanceof LinkError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    console.error('Error unlinking records:', error)
+    return NextResponse.json(
+      { error: 'Failed to unlink records' },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * Load both records of a link change and check that the caller may update
+ * each of them, including ownership and the update policies
+ */
+async function authorizeLinkWrite(
+  request: NextRequest,
+  modelName: string
+): Promise<{ user: User; resolved: ResolvedLink; record: RecordData; targetRecord: RecordData } | NextResponse> {
+  const { searchParams } = new URL(request.url)
+  const id = searchParams.get('id')
+  const targetId = searchParams.get('target')
+  const linkName = searchParams.get('link')
+
+  if (!id || !targetId || !linkName) {
+    return NextResponse.json(
+      { error: 'Record ID, link and target are required' },
+      { status: 400 }
+    )
+  }
+
+  const modelDef = await modelPersistence.loadModel(modelName)
+  if (!modelDef) {
+    return NextResponse.json(
+      { error: 'Model not found' },
+      { status: 404 }
+    )
+  }
+
+  const user = await rbac.authenticate(request)
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  const resolved = await recordLinks.resolve(modelDef, linkName)
+  const { target } = resolved
+  if (
+    !(await rbac.checkPermission({ user, modelName, action: 'update' })) ||
+    !(await rbac.checkPermission({ user, modelName: target.name, action: 'update' }))
+  ) {
+    return NextResponse.json(
+      { error: 'Insufficient permissions' },
+      { status: 403 }
+    )
+  }
+
+  const record = await recordStore.findById(modelDef, id)
+  const targetRecord = await recordStore.findById(target, targetId)
+  if (!record || !targetRecord) {
+    return NextResponse.json(
+      { error: 'Record not found' },
+      { status: 404 }
+    )
+  }
+
+  for (const [model, candidate] of [[modelDef, record], [target, targetRecord]] as const) {
+    if (!rbac.ownsRecord(user, model, candidate)) {
+      return NextResponse.json(
+        { error: 'You can only link your own records' },
+        { status: 403 }
+      )
+    }
+    if (!rbac.passesPolicies(user, model, 'update', candidate)) {
+      return NextResponse.json(
+        { error: 'A row-level policy does not allow you to update this record' },
+        { status: 403 }
+      )
+    }
+  }
+
+  return { user, resolved, record, targetRecord }
+}
+
+// Recorded against the declaring model's record, whichever side the change came from
+async function auditLink(
+  user: User,
+  resolved: ResolvedLink,
+  record: RecordData,
+  targetRecord: RecordData,
+  action: 'link' | 'unlink'
+): Promise<void> {
+  const [source, linked] = resolved.reverse ? [targetRecord, record] : [record, targetRecord]
+  const change = { [resolved.link.name]: linked.id }
+
+  await auditLog.record(user, {
+    entity: 'record',
+    model: resolved.owner.name,
+    recordId: source.id,
+    action,
+    ...(action === 'link' ? { after: change } : { before: change }),
+  })
+}
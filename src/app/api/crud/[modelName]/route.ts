@@ -1,11 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { auditLog } from '@/lib/audit'
+import { withModelLifecycle } from '@/lib/model-lifecycle'
 import { modelPersistence } from '@/lib/model-persistence'
+import { rbac } from '@/lib/rbac'
+import { recordExpansion } from '@/lib/record-expansion'
+import { parseRecordQuery, QueryError } from '@/lib/record-query'
+import { recordRelations, RelationError } from '@/lib/record-relations'
+import { recordStore, RecordConflictError, RecordValidationError } from '@/lib/record-store'
+import { recordVersions } from '@/lib/record-versions'
 
 // Dynamic CRUD handler for any model
-export async function GET(
+export const GET = withModelLifecycle(async (
   request: NextRequest,
   { params }: { params: { modelName: string } }
-) {
+) => {
   try {
     const { modelName } = params
     const { searchParams } = new URL(request.url)
@@ -20,46 +28,92 @@ export async function GET(
       )
     }
 
-    // Check RBAC permissions (simplified for demo)
-    const userRole = 'Admin' // In real app, get from auth context
-    const permissions = modelDef.rbac[userRole] || []
-    
-    if (!permissions.includes('read')) {
+    // Check RBAC permissions of the signed-in user
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await rbac.checkPermission({ user, modelName, action: 'read' }))) {
       return NextResponse.json(
         { error: 'Insufficient permissions' },
         { status: 403 }
       )
     }
 
-    // For now, return mock data since we don't have dynamic Prisma models
+    // Related records to embed, each checked against its own model's permissions
+    const expansions = await recordExpansion.parse(modelDef, searchParams.get('expand'))
+    const forbidden = await recordExpansion.findForbidden(user, modelDef, expansions)
+    if (forbidden) {
+      return NextResponse.json(
+        { error: forbidden },
+        { status: 403 }
+      )
+    }
+
     if (id) {
       // Get single record
+      const record = await recordStore.findById(modelDef, id)
+      // Records hidden by a row-level policy look the same as missing ones
+      if (!record || !rbac.passesPolicies(user, modelDef, 'read', record)) {
+        return NextResponse.json(
+          { error: 'Record not found' },
+          { status: 404 }
+        )
+      }
+
+      const readable = rbac.filterReadableFields(user, modelDef, record)
+      await recordExpansion.expand(user, [readable], expansions)
+      return NextResponse.json(readable)
+    } else {
+      // List records matching the filters, sort and page in the query string
+      const query = parseRecordQuery(modelDef, searchParams)
+
+      // Filtering or sorting on a hidden field would reveal its values
+      const hiddenField = [...query.filters, ...query.sort]
+        .map(clause => modelDef.fields.find(field => field.name === clause.field))
+        .find(field => field && !rbac.canReadField(user, field))
+      if (hiddenField) {
+        return NextResponse.json(
+          { error: `Field '${hiddenField.name}' is not readable for your role` },
+          { status: 403 }
+        )
+      }
+
+      const page = await recordStore.findMany(modelDef, query, rbac.getPolicyFilter(user, modelDef, 'read'))
+      const data = page.records.map(record => rbac.filterReadableFields(user, modelDef, record))
+      await recordExpansion.expand(user, data, expansions)
+
       return NextResponse.json({
-        id,
-        ...getMockData(modelDef),
+        data,
+        total: page.total,
+        limit: query.limit,
+        offset: query.cursor ? null : query.offset,
+        nextCursor: page.nextCursor,
       })
-    } else {
-      // Get all records
-      const mockRecords = Array.from({ length: 5 }, (_, i) => ({
-        id: `mock-${i + 1}`,
-        ...getMockData(modelDef),
-      }))
-      
-      return NextResponse.json(mockRecords)
     }
   } catch (error) {
+    if (error instanceof QueryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
     console.error('Error in CRUD GET:', error)
     return NextResponse.json(
       { error: 'Failed to fetch data' },
       { status: 500 }
     )
   }
-}
+})
 
-export async function POST(
+export const POST = withModelLifecycle(async (
   request: NextRequest,
   { params }: { params: { modelName: string } }
-) {
+) => {
   try {
     const { modelName } = params
     const body = await request.json()
@@ -73,49 +127,81 @@ export async function POST(
       )
     }
 
-    // Check RBAC permissions
-    const userRole = 'Admin' // In real app, get from auth context
-    const permissions = modelDef.rbac[userRole] || []
-    
-    if (!permissions.includes('create')) {
+    // Check RBAC permissions of the signed-in user
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await rbac.checkPermission({ user, modelName, action: 'create' }))) {
       return NextResponse.json(
         { error: 'Insufficient permissions' },
         { status: 403 }
       )
     }
 
-    // Validate required fields
-    for (const field of modelDef.fields) {
-      if (field.required && !body[field.name]) {
+    // Stamp the owner; only admin roles may create records on behalf of someone else
+    if (modelDef.ownerField) {
+      const requestedOwner = body[modelDef.ownerField]
+      if (!user.isAdmin && isProvided(requestedOwner) && requestedOwner !== user.id) {
         return NextResponse.json(
-          { error: `Field '${field.name}' is required` },
-          { status: 400 }
+          { error: `Field '${modelDef.ownerField}' is set automatically and cannot be written` },
+          { status: 403 }
         )
       }
+      body[modelDef.ownerField] = isProvided(requestedOwner) ? requestedOwner : user.id
     }
 
-    // Create new record (mock implementation)
-    const newRecord = {
-      id: `mock-${Date.now()}`,
-      ...body,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+    const forbiddenField = rbac.findForbiddenWrite(user, modelDef, body)
+    if (forbiddenField) {
+      return NextResponse.json(
+        { error: `You are not allowed to write field '${forbiddenField}'` },
+        { status: 403 }
+      )
     }
 
-    return NextResponse.json(newRecord, { status: 201 })
+    // Types, required fields and validation rules are checked by the record store
+    await recordRelations.validateReferences(modelDef, body)
+
+    const newRecord = await recordStore.create(modelDef, body)
+    await auditLog.record(user, {
+      entity: 'record',
+      model: modelDef.name,
+      recordId: newRecord.id,
+      action: 'create',
+      after: newRecord,
+    })
+    await recordVersions.capture(modelDef, user, 'create', newRecord)
+
+    return NextResponse.json(rbac.filterReadableFields(user, modelDef, newRecord), { status: 201 })
   } catch (error) {
+    if (error instanceof RecordValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof RecordConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
     console.error('Error in CRUD POST:', error)
     return NextResponse.json(
       { error: 'Failed to create record' },
       { status: 500 }
     )
   }
-}
+})
 
-export async function PUT(
+export const PUT = withModelLifecycle(async (
   request: NextRequest,
   { params }: { params: { modelName: string } }
-) {
+) => {
   try {
     const { modelName } = params
     const { searchParams } = new URL(request.url)
@@ -138,50 +224,111 @@ export async function PUT(
       )
     }
 
-    // Check RBAC permissions
-    const userRole = 'Admin' // In real app, get from auth context
-    const permissions = modelDef.rbac[userRole] || []
-    
-    if (!permissions.includes('update')) {
+    // Check RBAC permissions of the signed-in user
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await rbac.checkPermission({ user, modelName, action: 'update' }))) {
       return NextResponse.json(
         { error: 'Insufficient permissions' },
         { status: 403 }
       )
     }
 
-    // Check ownership if ownerField is specified
-    if (modelDef.ownerField) {
-      const currentUserId = 'user-1' // In real app, get from auth context
-      // In real implementation, fetch the record and check ownership
-      if (body[modelDef.ownerField] !== currentUserId && userRole !== 'Admin') {
-        return NextResponse.json(
-          { error: 'You can only update your own records' },
-          { status: 403 }
-        )
-      }
+    const existingRecord = await recordStore.findById(modelDef, id)
+    if (!existingRecord) {
+      return NextResponse.json(
+        { error: 'Record not found' },
+        { status: 404 }
+      )
     }
 
-    // Update record (mock implementation)
-    const updatedRecord = {
-      id,
-      ...body,
-      updatedAt: new Date().toISOString(),
+    // Check ownership against the stored record, not the request body
+    if (!rbac.ownsRecord(user, modelDef, existingRecord)) {
+      return NextResponse.json(
+        { error: 'You can only update your own records' },
+        { status: 403 }
+      )
     }
 
-    return NextResponse.json(updatedRecord)
+    if (!rbac.passesPolicies(user, modelDef, 'update', existingRecord)) {
+      return NextResponse.json(
+        { error: 'A row-level policy does not allow you to update this record' },
+        { status: 403 }
+      )
+    }
+
+    // Only admin roles may hand a record over to another owner
+    if (
+      modelDef.ownerField &&
+      !user.isAdmin &&
+      isProvided(body[modelDef.ownerField]) &&
+      body[modelDef.ownerField] !== existingRecord[modelDef.ownerField]
+    ) {
+      return NextResponse.json(
+        { error: `Field '${modelDef.ownerField}' can only be changed by an admin role` },
+        { status: 403 }
+      )
+    }
+
+    const forbiddenField = rbac.findForbiddenWrite(user, modelDef, body, existingRecord)
+    if (forbiddenField) {
+      return NextResponse.json(
+        { error: `You are not allowed to write field '${forbiddenField}'` },
+        { status: 403 }
+      )
+    }
+
+    await recordRelations.validateReferences(modelDef, body)
+
+    const updatedRecord = await recordStore.update(modelDef, id, body)
+    if (!updatedRecord) {
+      return NextResponse.json(
+        { error: 'Record not found' },
+        { status: 404 }
+      )
+    }
+    await auditLog.record(user, {
+      entity: 'record',
+      model: modelDef.name,
+      recordId: id,
+      action: 'update',
+      before: existingRecord,
+      after: updatedRecord,
+    })
+    await recordVersions.capture(modelDef, user, 'update', updatedRecord, existingRecord)
+
+    return NextResponse.json(rbac.filterReadableFields(user, modelDef, updatedRecord))
   } catch (error) {
+    if (error instanceof RecordValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof RecordConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
     console.error('Error in CRUD PUT:', error)
     return NextResponse.json(
       { error: 'Failed to update record' },
       { status: 500 }
     )
   }
-}
+})
 
-export async function DELETE(
+export const DELETE = withModelLifecycle(async (
   request: NextRequest,
   { params }: { params: { modelName: string } }
-) {
+) => {
   try {
     const { modelName } = params
     const { searchParams } = new URL(request.url)
@@ -203,63 +350,83 @@ export async function DELETE(
       )
     }
 
-    // Check RBAC permissions
-    const userRole = 'Admin' // In real app, get from auth context
-    const permissions = modelDef.rbac[userRole] || []
-    
-    if (!permissions.includes('delete')) {
+    // Check RBAC permissions of the signed-in user
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await rbac.checkPermission({ user, modelName, action: 'delete' }))) {
       return NextResponse.json(
         { error: 'Insufficient permissions' },
         { status: 403 }
       )
     }
 
-    // Check ownership if ownerField is specified
-    if (modelDef.ownerField) {
-      const currentUserId = 'user-1' // In real app, get from auth context
-      // In real implementation, fetch the record and check ownership
-      if (userRole !== 'Admin') {
-        return NextResponse.json(
-          { error: 'You can only delete your own records' },
-          { status: 403 }
-        )
-      }
+    const existingRecord = await recordStore.findById(modelDef, id)
+    if (!existingRecord) {
+      return NextResponse.json(
+        { error: 'Record not found' },
+        { status: 404 }
+      )
+    }
+
+    // Check ownership against the stored record
+    if (!rbac.ownsRecord(user, modelDef, existingRecord)) {
+      return NextResponse.json(
+        { error: 'You can only delete your own records' },
+        { status: 403 }
+      )
+    }
+
+    if (!rbac.passesPolicies(user, modelDef, 'delete', existingRecord)) {
+      return NextResponse.json(
+        { error: 'A row-level policy does not allow you to delete this record' },
+        { status: 403 }
+      )
     }
 
-    // Delete record (mock implementation)
-    return NextResponse.json({ message: 'Record deleted successfully' })
+    // Throws before anything changes when a restrict relation blocks the delete
+    const effects = await recordRelations.planDelete(modelDef, id)
+
+    const deleted = await recordStore.delete(modelDef, id)
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Record not found' },
+        { status: 404 }
+      )
+    }
+    await auditLog.record(user, {
+      entity: 'record',
+      model: modelDef.name,
+      recordId: id,
+      action: 'delete',
+      before: existingRecord,
+    })
+    await recordRelations.applyDelete(effects, user)
+
+    return NextResponse.json({
+      message: modelDef.softDelete ? 'Record moved to the trash' : 'Record deleted successfully',
+    })
   } catch (error) {
+    if (error instanceof RelationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
     console.error('Error in CRUD DELETE:', error)
     return NextResponse.json(
       { error: 'Failed to delete record' },
       { status: 500 }
     )
   }
-}
-
-// Helper function to generate mock data based on model definition
-function getMockData(modelDef: any) {
-  const data: any = {}
-  
-  for (const field of modelDef.fields) {
-    switch (field.type) {
-      case 'string':
-        data[field.name] = field.default || `Sample ${field.name}`
-        break
-      case 'number':
-        data[field.name] = field.default ? parseFloat(field.default) : Math.floor(Math.random() * 100)
-        break
-      case 'boolean':
-        data[field.name] = field.default ? field.default === 'true' : Math.random() > 0.5
-        break
-      case 'date':
-        data[field.name] = field.default || new Date().toISOString()
-        break
-      case 'text':
-        data[field.name] = field.default || `Sample text for ${field.name}`
-        break
-    }
-  }
-  
-  return data
+})
+
+// Empty form inputs arrive as '' and do not count as a value
+function isProvided(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== ''
 }
\ No newline at end of file
@@ -0,0 +1,230 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auditLog } from '@/lib/audit'
+import { withModelLifecycle } from '@/lib/model-lifecycle'
+import { ModelDefinition, modelPersistence } from '@/lib/model-persistence'
+import { rbac, User } from '@/lib/rbac'
+import { parseRecordQuery, QueryError } from '@/lib/record-query'
+import { recordRelations } from '@/lib/record-relations'
+import { RecordData, recordStore, RecordConflictError, RecordValidationError } from '@/lib/record-store'
+import { recordVersions } from '@/lib/record-versions'
+
+// The trash of a soft-delete model; every action needs the purge permission
+
+export const GET = withModelLifecycle(async (
+  request: NextRequest,
+  { params }: { params: { modelName: string } }
+) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const access = await authorizeTrash(request, params.modelName)
+    if (access instanceof NextResponse) {
+      return access
+    }
+    const { user, modelDef } = access
+
+    const query = parseRecordQuery(modelDef, searchParams)
+    const page = await recordStore.findMany(modelDef, query, rbac.getPolicyFilter(user, modelDef, 'delete'), { trash: true })
+
+    return NextResponse.json({
+      data: page.records.map(record => rbac.filterReadableFields(user, modelDef, record)),
+      total: page.total,
+      limit: query.limit,
+      offset: query.cursor ? null : query.offset,
+      nextCursor: page.nextCursor,
+    })
+  } catch (error) {
+    if (error instanceof QueryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    console.error('Error fetching trash:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch trash' },
+      { status: 500 }
+    )
+  }
+})
+
+// Restore a record from the trash
+export const POST = withModelLifecycle(async (
+  request: NextRequest,
+  { params }: { params: { modelName: string } }
+) => {
+  try {
+    const access = await authorizeTrash(request, params.modelName)
+    if (access instanceof NextResponse) {
+      return access
+    }
+    const { user, modelDef } = access
+
+    const record = await findTrashedRecord(request, user, modelDef)
+    if (record instanceof NextResponse) {
+      return record
+    }
+
+    // The records it referenced may have been deleted in the meantime
+    await recordRelations.validateReferences(modelDef, record)
+
+    const restoredRecord = await recordStore.restore(modelDef, record.id)
+    if (!restoredRecord) {
+      return NextResponse.json(
+        { error: 'Record not found in the trash' },
+        { status: 404 }
+      )
+    }
+    await auditLog.record(user, {
+      entity: 'record',
+      model: modelDef.name,
+      recordId: record.id,
+      action: 'restore',
+      before: record,
+      after: restoredRecord,
+    })
+    await recordVersions.capture(modelDef, user, 'restore', restoredRecord, record)
+
+    return NextResponse.json(rbac.filterReadableFields(user, modelDef, restoredRecord))
+  } catch (error) {
+    if (error instanceof RecordValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof RecordConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+    console.error('Error restoring record:', error)
+    return NextResponse.json(
+      { error: 'Failed to restore record' },
+      { status: 500 }
+    )
+  }
+})
+
+// Permanently remove a record from the trash, together with its history
+export const DELETE = withModelLifecycle(async (
+  request: NextRequest,
+  { params }: { params: { modelName: string } }
+) => {
+  try {
+    const access = await authorizeTrash(request, params.modelName)
+    if (access instanceof NextResponse) {
+      return access
+    }
+    const { user, modelDef } = access
+
+    const record = await findTrashedRecord(request, user, modelDef)
+    if (record instanceof NextResponse) {
+      return record
+    }
+
+    if (!(await recordStore.purge(modelDef, record.id))) {
+      return NextResponse.json(
+        { error: 'Record not found in the trash' },
+        { status: 404 }
+      )
+    }
+    await recordVersions.discard(modelDef, [record.id])
+    await auditLog.record(user, {
+      entity: 'record',
+      model: modelDef.name,
+      recordId: record.id,
+      action: 'purge',
+      before: record,
+    })
+
+    return NextResponse.json({ message: 'Record purged successfully' })
+  } catch (error) {
+    console.error('Error purging record:', error)
+    return NextResponse.json(
+      { error: 'Failed to purge record' },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * Load a soft-delete model and check the purge permission of the caller
+ */
+async function authorizeTrash(
+  request: NextRequest,
+  modelName: string
+): Promise<{ user: User; modelDef: ModelDefinition } | NextResponse> {
+  const modelDef = await modelPersistence.loadModel(modelName)
+  if (!modelDef) {
+    return NextResponse.json(
+      { error: 'Model not found' },
+      { status: 404 }
+    )
+  }
+
+  if (!modelDef.softDelete) {
+    return NextResponse.json(
+      { error: `Model '${modelDef.name}' does not use soft delete` },
+      { status: 400 }
+    )
+  }
+
+  const user = await rbac.authenticate(request)
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  if (!(await rbac.checkPermission({ user, modelName, action: 'purge' }))) {
+    return NextResponse.json(
+      { error: 'Insufficient permissions' },
+      { status: 403 }
+    )
+  }
+
+  return { user, modelDef }
+}
+
+/**
+ * The trashed record named by ?id=, checked against ownership and the delete policies
+ */
+async function findTrashedRecord(
+  request: NextRequest,
+  user: User,
+  modelDef: ModelDefinition
+): Promise<RecordData | NextResponse> {
+  const id = new URL(request.url).searchParams.get('id')
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Record ID is required' },
+      { status: 400 }
+    )
+  }
+
+  const record = await recordStore.findById(modelDef, id, { trash: true })
+  if (!record) {
+    return NextResponse.json(
+      { error: 'Record not found in the trash' },
+      { status: 404 }
+    )
+  }
+
+  if (!rbac.ownsRecord(user, modelDef, record)) {
+    return NextResponse.json(
+      { error: 'You can only manage your own records' },
+      { status: 403 }
+    )
+  }
+
+  if (!rbac.passesPolicies(user, modelDef, 'delete', record)) {
+    return NextResponse.json(
+      { error: 'A row-level policy does not allow you to delete this record' },
+      { status: 403 }
+    )
+  }
+
+  return record
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { diffSnapshots } from '@/lib/audit'
+import { withModelLifecycle } from '@/lib/model-lifecycle'
+import { modelPersistence } from '@/lib/model-persistence'
+import { rbac } from '@/lib/rbac'
+import { recordStore } from '@/lib/record-store'
+import { recordVersions } from '@/lib/record-versions'
+
+// Field-by-field diff of two versions of a record: ?id=<id>&from=1&to=3
+export const GET = withModelLifecycle(async (
+  request: NextRequest,
+  { params }: { params: { modelName: string } }
+) => {
+  try {
+    const { modelName } = params
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+    const from = Number(searchParams.get('from'))
+    const to = Number(searchParams.get('to'))
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Record ID is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < 1) {
+      return NextResponse.json(
+        { error: 'from and to must be version numbers' },
+        { status: 400 }
+      )
+    }
+
+    const modelDef = await modelPersistence.loadModel(modelName)
+    if (!modelDef) {
+      return NextResponse.json(
+        { error: 'Model not found' },
+        { status: 404 }
+      )
+    }
+
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await rbac.checkPermission({ user, modelName, action: 'read' }))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const record = await recordStore.findById(modelDef, id)
+    if (!record || !rbac.passesPolicies(user, modelDef, 'read', record)) {
+      return NextResponse.json(
+        { error: 'Record not found' },
+        { status: 404 }
+      )
+    }
+
+    const [fromVersion, toVersion] = await Promise.all([
+      recordVersions.find(modelDef, id, from),
+      recordVersions.find(modelDef, id, to),
+    ])
+    if (!fromVersion || !toVersion) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      from,
+      to,
+      changes: diffSnapshots(
+        rbac.filterReadableFields(user, modelDef, fromVersion.data),
+        rbac.filterReadableFields(user, modelDef, toVersion.data)
+      ),
+    })
+  } catch (error) {
+    console.error('Error diffing record versions:', error)
+    return NextResponse.json(
+      { error: 'Failed to diff record versions' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auditLog } from '@/lib/audit'
+import { withModelLifecycle } from '@/lib/model-lifecycle'
+import { modelPersistence } from '@/lib/model-persistence'
+import { rbac } from '@/lib/rbac'
+import { recordRelations } from '@/lib/record-relations'
+import { recordStore, RecordConflictError, RecordValidationError } from '@/lib/record-store'
+import { recordVersions } from '@/lib/record-versions'
+
+// List the versions of a record, newest first
+export const GET = withModelLifecycle(async (
+  request: NextRequest,
+  { params }: { params: { modelName: string } }
+) => {
+  try {
+    const { modelName } = params
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Record ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const modelDef = await modelPersistence.loadModel(modelName)
+    if (!modelDef) {
+      return NextResponse.json(
+        { error: 'Model not found' },
+        { status: 404 }
+      )
+    }
+
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await rbac.checkPermission({ user, modelName, action: 'read' }))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const record = await recordStore.findById(modelDef, id)
+    if (!record || !rbac.passesPolicies(user, modelDef, 'read', record)) {
+      return NextResponse.json(
+        { error: 'Record not found' },
+        { status: 404 }
+      )
+    }
+
+    const versions = await recordVersions.list(modelDef, id)
+
+    return NextResponse.json(versions.map(version => ({
+      ...version,
+      data: rbac.filterReadableFields(user, modelDef, version.data),
+    })))
+  } catch (error) {
+    console.error('Error fetching record versions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch record versions' },
+      { status: 500 }
+    )
+  }
+})
+
+// Restore an older version: { "version": 2 }. The restore is written as a new version.
+export const POST = withModelLifecycle(async (
+  request: NextRequest,
+  { params }: { params: { modelName: string } }
+) => {
+  try {
+    const { modelName } = params
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+    const body = await request.json().catch(() => ({}))
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Record ID is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!Number.isInteger(body.version)) {
+      return NextResponse.json(
+        { error: 'version must be a version number' },
+        { status: 400 }
+      )
+    }
+
+    const modelDef = await modelPersistence.loadModel(modelName)
+    if (!modelDef) {
+      return NextResponse.json(
+        { error: 'Model not found' },
+        { status: 404 }
+      )
+    }
+
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await rbac.checkPermission({ user, modelName, action: 'update' }))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const existingRecord = await recordStore.findById(modelDef, id)
+    if (!existingRecord) {
+      return NextResponse.json(
+        { error: 'Record not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!rbac.ownsRecord(user, modelDef, existingRecord)) {
+      return NextResponse.json(
+        { error: 'You can only update your own records' },
+        { status: 403 }
+      )
+    }
+
+    if (!rbac.passesPolicies(user, modelDef, 'update', existingRecord)) {
+      return NextResponse.json(
+        { error: 'A row-level policy does not allow you to update this record' },
+        { status: 403 }
+      )
+    }
+
+    const target = await recordVersions.find(modelDef, id, body.version)
+    if (!target) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    // Fields added to the model after the version was written keep their current value
+    const data: Record<string, any> = {}
+    for (const name of [...modelDef.fields.map(field => field.name), modelDef.ownerField]) {
+      if (name && name in target.data) {
+        data[name] = target.data[name]
+      }
+    }
+
+    // Restoring must not hand the record to another owner either
+    if (
+      modelDef.ownerField &&
+      !user.isAdmin &&
+      data[modelDef.ownerField] !== undefined &&
+      data[modelDef.ownerField] !== existingRecord[modelDef.ownerField]
+    ) {
+      return NextResponse.json(
+        { error: `Field '${modelDef.ownerField}' can only be changed by an admin role` },
+        { status: 403 }
+      )
+    }
+
+    const forbiddenField = rbac.findForbiddenWrite(user, modelDef, data, existingRecord)
+    if (forbiddenField) {
+      return NextResponse.json(
+        { error: `You are not allowed to write field '${forbiddenField}'` },
+        { status: 403 }
+      )
+    }
+
+    await recordRelations.validateReferences(modelDef, data)
+
+    const restoredRecord = await recordStore.update(modelDef, id, data)
+    if (!restoredRecord) {
+      return NextResponse.json(
+        { error: 'Record not found' },
+        { status: 404 }
+      )
+    }
+    await auditLog.record(user, {
+      entity: 'record',
+      model: modelDef.name,
+      recordId: id,
+      action: 'restore',
+      before: existingRecord,
+      after: restoredRecord,
+    })
+    await recordVersions.capture(modelDef, user, 'restore', restoredRecord, existingRecord, target.version)
+
+    return NextResponse.json(rbac.filterReadableFields(user, modelDef, restoredRecord))
+  } catch (error) {
+    if (error instanceof RecordValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof RecordConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+    console.error('Error restoring record version:', error)
+    return NextResponse.json(
+      { error: 'Failed to restore record version' },
+      { status: 500 }
+    )
+  }
+})
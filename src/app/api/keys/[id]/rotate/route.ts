@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { apiKeys } from '@/lib/api-keys'
+import { rbac } from '@/lib/rbac'
+
+// Revoke a key and issue a replacement with the same name and scope
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    // Rotating returns a new key in plain text, so a key must not rotate keys
+    if (user.authMethod !== 'session') {
+      return NextResponse.json(
+        { error: 'API keys can only be rotated from a signed-in session' },
+        { status: 403 }
+      )
+    }
+
+    const result = await apiKeys.rotate(user.id, params.id)
+    if (!result) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    console.error('Error rotating API key:', error)
+    return NextResponse.json(
+      { error: 'Failed to rotate API key' },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { apiKeys } from '@/lib/api-keys'
+import { rbac } from '@/lib/rbac'
+
+// Revoke a key. Revoked keys stay listed but no longer authenticate.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    // A leaked key must not be able to revoke the keys of its user
+    if (user.authMethod !== 'session') {
+      return NextResponse.json(
+        { error: 'API keys can only be revoked from a signed-in session' },
+        { status: 403 }
+      )
+    }
+
+    const revoked = await apiKeys.revoke(user.id, params.id)
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'API key revoked successfully' })
+  } catch (error) {
+    console.error('Error revoking API key:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke API key' },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ApiKeyScopeError, apiKeys, parseApiKeyScope } from '@/lib/api-keys'
+import { rbac } from '@/lib/rbac'
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json(await apiKeys.list(user.id))
+  } catch (error) {
+    console.error('Error fetching API keys:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch API keys' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    // A key must not be able to mint keys without its own restrictions
+    if (user.authMethod !== 'session') {
+      return NextResponse.json(
+        { error: 'API keys can only be created from a signed-in session' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { name } = body
+    if (!name || typeof name !== 'string') {
+      return NextResponse.json(
+        { error: 'Key name is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await apiKeys.create(user.id, name, parseApiKeyScope(body.scope))
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    if (error instanceof ApiKeyScopeError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    console.error('Error creating API key:', error)
+    return NextResponse.json(
+      { error: 'Failed to create API key' },
+      { status: 500 }
+    )
+  }
+}
\ No newline at end of file
@@ -1,12 +1,84 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { auditLog } from '@/lib/audit'
 import { db } from '@/lib/db'
-import { modelPersistence } from '@/lib/model-persistence'
+import { rbac } from '@/lib/rbac'
+import { modelPersistence, toModelDefinition } from '@/lib/model-persistence'
+import { ModelValidationError, parseModelDefinition } from '@/lib/model-schema'
+import { modelVersions } from '@/lib/model-versions'
+import { recordRelations } from '@/lib/record-relations'
+import { PolicyError, rowPolicies } from '@/lib/row-policy'
+import { diffModels } from '@/lib/schema-diff'
+import { schemaManager, SchemaError } from '@/lib/schema-manager'
+
+// Preview the migration plan without publishing
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await rbac.hasSystemPermission(user, 'model:publish'))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const model = await db.modelDefinition.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!model) {
+      return NextResponse.json(
+        { error: 'Model not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const renames = parseRenames(searchParams.get('renames'))
+    const modelDefinition = toModelDefinition(model)
+    const published = await modelPersistence.loadModel(model.name)
+
+    return NextResponse.json({
+      plan: diffModels(published, modelDefinition, renames),
+    })
+  } catch (error) {
+    console.error('Error planning model migration:', error)
+    return NextResponse.json(
+      { error: 'Failed to plan model migration' },
+      { status: 500 }
+    )
+  }
+}
 
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await rbac.hasSystemPermission(user, 'model:publish'))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
     const model = await db.modelDefinition.findUnique({
       where: { id: params.id },
     })
@@ -18,32 +90,87 @@ export async function POST(
       )
     }
 
-    const definition = JSON.parse(model.definition)
-    
+    // The body is optional: { confirm?: boolean, renames?: { oldName: newName } }
+    const body = await request.json().catch(() => ({}))
+    const modelDefinition = toModelDefinition(model)
+    parseModelDefinition(modelDefinition)
+    rowPolicies.validate(modelDefinition)
+    await recordRelations.validateDefinition(modelDefinition)
+    const published = await modelPersistence.loadModel(model.name)
+    const plan = diffModels(published, modelDefinition, body.renames || {})
+
+    if (plan.destructive && body.confirm !== true) {
+      return NextResponse.json(
+        {
+          error: 'The migration contains destructive changes. Review the plan and publish again with confirm set to true.',
+          plan,
+        },
+        { status: 409 }
+      )
+    }
+
+    // Create or migrate the table before the new definition goes live
+    const migration = await schemaManager.migrateTable(modelDefinition, plan)
+
     // Save model definition to file
-    await modelPersistence.saveModel({
-      name: model.name,
-      tableName: model.tableName,
-      ...definition,
-    })
+    await modelPersistence.saveModel(modelDefinition)
+    const version = await modelVersions.capture(modelDefinition, user, 'publish', published)
 
     // Mark model as published in database
     const updatedModel = await db.modelDefinition.update({
       where: { id: params.id },
       data: {
-        isPublished: true,
+        // Republishing a deprecated or archived model keeps its status
+        status: model.status === 'draft' ? 'published' : model.status,
       },
     })
 
+    // Diffs against the previously published file, so the entry shows what went live
+    await auditLog.record(user, {
+      entity: 'model',
+      model: model.name,
+      recordId: model.id,
+      action: 'publish',
+      before: published,
+      after: modelDefinition,
+    })
+
     return NextResponse.json({
       message: 'Model published successfully',
       model: updatedModel,
+      version,
+      migration,
+      plan,
     })
   } catch (error) {
+    if (error instanceof ModelValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof SchemaError || error instanceof PolicyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
     console.error('Error publishing model:', error)
     return NextResponse.json(
       { error: 'Failed to publish model' },
       { status: 500 }
     )
   }
+}
+
+// renames=oldName:newName,other:renamed
+function parseRenames(value: string | null): Record<string, string> {
+  const renames: Record<string, string> = {}
+  for (const pair of (value || '').split(',')) {
+    const [from, to] = pair.split(':').map(part => part.trim())
+    if (from && to) {
+      renames[from] = to
+    }
+  }
+  return renames
 }
\ No newline at end of file
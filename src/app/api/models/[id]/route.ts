@@ -1,11 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { auditLog, modelSnapshot } from '@/lib/audit'
 import { db } from '@/lib/db'
+import { modelPersistence } from '@/lib/model-persistence'
+import { ModelValidationError, parseModelDefinition } from '@/lib/model-schema'
+import { rbac } from '@/lib/rbac'
+import { recordRelations } from '@/lib/record-relations'
+import { PolicyError, rowPolicies } from '@/lib/row-policy'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
     const model = await db.modelDefinition.findUnique({
       where: { id: params.id },
       include: {
@@ -41,8 +55,23 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await rbac.hasSystemPermission(user, 'model:edit'))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
     const body = await request.json()
-    const { name, tableName, fields, ownerField, rbac } = body
+    const { name, tableName, fields, ownerField, rbac: modelRbac, policies, links, softDelete, retentionDays } = body
 
     const existingModel = await db.modelDefinition.findUnique({
       where: { id: params.id },
@@ -55,16 +84,29 @@ export async function PUT(
       )
     }
 
+    const existingDefinition = JSON.parse(existingModel.definition)
+    const definition = {
+      fields: fields || existingDefinition.fields,
+      ownerField: ownerField || existingDefinition.ownerField,
+      rbac: modelRbac || existingDefinition.rbac,
+      policies: policies || existingDefinition.policies,
+      links: links || existingDefinition.links,
+      softDelete: softDelete ?? existingDefinition.softDelete,
+      retentionDays: retentionDays !== undefined ? retentionDays : existingDefinition.retentionDays,
+    }
+    parseModelDefinition({
+      name: name || existingModel.name,
+      tableName: tableName || existingModel.tableName || undefined,
+      ...definition,
+    })
+    rowPolicies.validate({ name: name || existingModel.name, ...definition })
+
     const updatedModel = await db.modelDefinition.update({
       where: { id: params.id },
       data: {
         name: name || existingModel.name,
         tableName: tableName || existingModel.tableName,
-        definition: JSON.stringify({ 
-          fields: fields || JSON.parse(existingModel.definition).fields,
-          ownerField: ownerField || JSON.parse(existingModel.definition).ownerField,
-          rbac: rbac || JSON.parse(existingModel.definition).rbac,
-        }),
+        definition: JSON.stringify(definition),
       },
       include: {
         creator: {
@@ -77,8 +119,29 @@ export async function PUT(
       },
     })
 
+    await auditLog.record(user, {
+      entity: 'model',
+      model: updatedModel.name,
+      recordId: updatedModel.id,
+      action: 'update',
+      before: modelSnapshot(existingModel),
+      after: modelSnapshot(updatedModel),
+    })
+
     return NextResponse.json(updatedModel)
   } catch (error) {
+    if (error instanceof ModelValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof PolicyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
     console.error('Error updating model:', error)
     return NextResponse.json(
       { error: 'Failed to update model' },
@@ -92,6 +155,21 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await rbac.hasSystemPermission(user, 'model:delete'))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
     const existingModel = await db.modelDefinition.findUnique({
       where: { id: params.id },
     })
@@ -103,9 +181,28 @@ export async function DELETE(
       )
     }
 
+    // Deleting takes the API offline, which would leave these relations dangling
+    const dependents = await recordRelations.findDependents(existingModel.name)
+    if (dependents.length > 0) {
+      return NextResponse.json(
+        { error: `${existingModel.name} is referenced by ${dependents.join(', ')}; remove those relations first` },
+        { status: 409 }
+      )
+    }
+
     await db.modelDefinition.delete({
       where: { id: params.id },
     })
+    // Takes the model's CRUD API offline; its table and records are kept
+    await modelPersistence.deleteModel(existingModel.name)
+
+    await auditLog.record(user, {
+      entity: 'model',
+      model: existingModel.name,
+      recordId: existingModel.id,
+      action: 'delete',
+      before: modelSnapshot(existingModel),
+    })
 
     return NextResponse.json({ message: 'Model deleted successfully' })
   } catch (error) {
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { LifecycleError, modelLifecycle } from '@/lib/model-lifecycle'
+import { ModelStatus, modelStatuses } from '@/lib/model-statuses'
+import { rbac } from '@/lib/rbac'
+
+// Move a model through its lifecycle: { status: 'published' | 'deprecated' | 'archived' | 'draft' }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await rbac.hasSystemPermission(user, 'model:publish'))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    if (!modelStatuses.includes(body.status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${modelStatuses.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const model = await modelLifecycle.transition(params.id, body.status as ModelStatus, user)
+    if (!model) {
+      return NextResponse.json(
+        { error: 'Model not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(model)
+  } catch (error) {
+    if (error instanceof LifecycleError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+    console.error('Error changing model status:', error)
+    return NextResponse.json(
+      { error: 'Failed to change model status' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { diffSnapshots } from '@/lib/audit'
+import { db } from '@/lib/db'
+import { rbac } from '@/lib/rbac'
+import { modelVersions } from '@/lib/model-versions'
+import { diffModels } from '@/lib/schema-diff'
+
+// Changes between two versions of a model definition: ?from=1&to=3
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const from = Number(searchParams.get('from'))
+    const to = Number(searchParams.get('to'))
+
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < 1) {
+      return NextResponse.json(
+        { error: 'from and to must be version numbers' },
+        { status: 400 }
+      )
+    }
+
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await rbac.hasSystemPermission(user, 'model:publish'))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const model = await db.modelDefinition.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!model) {
+      return NextResponse.json(
+        { error: 'Model not found' },
+        { status: 404 }
+      )
+    }
+
+    const [fromVersion, toVersion] = await Promise.all([
+      modelVersions.find(model.name, from),
+      modelVersions.find(model.name, to),
+    ])
+    if (!fromVersion || !toVersion) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    // changes lists every property that differs; plan is the migration
+    // moving the table from one version to the other would run
+    return NextResponse.json({
+      from,
+      to,
+      changes: diffSnapshots(fromVersion.definition, toVersion.definition),
+      plan: diffModels(fromVersion.definition, toVersion.definition),
+    })
+  } catch (error) {
+    console.error('Error diffing model versions:', error)
+    return NextResponse.json(
+      { error: 'Failed to diff model versions' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auditLog } from '@/lib/audit'
+import { db } from '@/lib/db'
+import { rbac } from '@/lib/rbac'
+import { modelPersistence } from '@/lib/model-persistence'
+import { ModelValidationError, parseModelDefinition } from '@/lib/model-schema'
+import { modelVersions } from '@/lib/model-versions'
+import { recordRelations } from '@/lib/record-relations'
+import { PolicyError, rowPolicies } from '@/lib/row-policy'
+import { diffModels } from '@/lib/schema-diff'
+import { schemaManager, SchemaError } from '@/lib/schema-manager'
+
+// Published versions of a model definition, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await rbac.hasSystemPermission(user, 'model:publish'))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const model = await db.modelDefinition.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!model) {
+      return NextResponse.json(
+        { error: 'Model not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(await modelVersions.list(model.name))
+  } catch (error) {
+    console.error('Error fetching model versions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch model versions' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Roll the model back by publishing an earlier version as a new one. The body
+ * is { version, confirm?, renames? } and is checked like a forward publish.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await rbac.hasSystemPermission(user, 'model:publish'))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const model = await db.modelDefinition.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!model) {
+      return NextResponse.json(
+        { error: 'Model not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    if (!Number.isInteger(body.version) || body.version < 1) {
+      return NextResponse.json(
+        { error: 'version must be a version number' },
+        { status: 400 }
+      )
+    }
+
+    const target = await modelVersions.find(model.name, body.version)
+    if (!target) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    const modelDefinition = target.definition
+    parseModelDefinition(modelDefinition)
+    rowPolicies.validate(modelDefinition)
+    await recordRelations.validateDefinition(modelDefinition)
+    const published = await modelPersistence.loadModel(model.name)
+    const plan = diffModels(published, modelDefinition, body.renames || {})
+
+    if (plan.destructive && body.confirm !== true) {
+      return NextResponse.json(
+        {
+          error: 'The rollback contains destructive changes. Review the plan and roll back again with confirm set to true.',
+          plan,
+        },
+        { status: 409 }
+      )
+    }
+
+    const migration = await schemaManager.migrateTable(modelDefinition, plan)
+    await modelPersistence.saveModel(modelDefinition)
+    const version = await modelVersions.capture(modelDefinition, user, 'rollback', published, target.version)
+
+    // The draft follows the rollback so the next publish starts from it
+    const { name, tableName, ...definition } = modelDefinition
+    const updatedModel = await db.modelDefinition.update({
+      where: { id: params.id },
+      data: {
+        tableName: tableName || null,
+        definition: JSON.stringify(definition),
+        status: model.status === 'draft' ? 'published' : model.status,
+      },
+    })
+
+    await auditLog.record(user, {
+      entity: 'model',
+      model: name,
+      recordId: model.id,
+      action: 'restore',
+      before: published,
+      after: modelDefinition,
+    })
+
+    return NextResponse.json({
+      message: `Model rolled back to version ${target.version}`,
+      model: updatedModel,
+      version,
+      migration,
+      plan,
+    })
+  } catch (error) {
+    if (error instanceof ModelValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof SchemaError || error instanceof PolicyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    console.error('Error rolling back model:', error)
+    return NextResponse.json(
+      { error: 'Failed to roll back model' },
+      { status: 500 }
+    )
+  }
+}
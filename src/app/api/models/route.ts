@@ -1,8 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { auditLog, modelSnapshot } from '@/lib/audit'
 import { db } from '@/lib/db'
+import { ModelValidationError, parseModelDefinition } from '@/lib/model-schema'
+import { rbac } from '@/lib/rbac'
+import { PolicyError, rowPolicies } from '@/lib/row-policy'
 
-export async function GET() {
+// Any signed-in user may list models; the designer and data screens need them
+export async function GET(request: NextRequest) {
   try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
     const models = await db.modelDefinition.findMany({
       include: {
         creator: {
@@ -30,22 +43,35 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
-    const { name, tableName, fields, ownerField, rbac } = body
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
 
-    if (!name || !fields || !Array.isArray(fields) || fields.length === 0) {
+    if (!(await rbac.hasSystemPermission(user, 'model:create'))) {
       return NextResponse.json(
-        { error: 'Invalid model definition' },
-        { status: 400 }
+        { error: 'Insufficient permissions' },
+        { status: 403 }
       )
     }
 
+    const body = await request.json()
+    const { name, tableName, fields, ownerField, rbac: modelRbac, policies, links, softDelete, retentionDays } = body
+
+    const { name: modelName, tableName: modelTableName, ...definition } = parseModelDefinition({
+      name, tableName, fields, ownerField, rbac: modelRbac, policies, links, softDelete, retentionDays,
+    })
+    rowPolicies.validate({ name: modelName, ...definition })
+
     const modelDefinition = await db.modelDefinition.create({
       data: {
-        name,
-        tableName,
-        definition: JSON.stringify({ fields, ownerField, rbac }),
-        // createdBy is optional, so don't set it for now
+        name: modelName,
+        tableName: modelTableName,
+        definition: JSON.stringify(definition),
+        createdBy: user.id,
       },
       include: {
         creator: {
@@ -58,8 +84,28 @@ export async function POST(request: NextRequest) {
       },
     })
 
+    await auditLog.record(user, {
+      entity: 'model',
+      model: modelDefinition.name,
+      recordId: modelDefinition.id,
+      action: 'create',
+      after: modelSnapshot(modelDefinition),
+    })
+
     return NextResponse.json(modelDefinition, { status: 201 })
   } catch (error) {
+    if (error instanceof ModelValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof PolicyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
     console.error('Error creating model:', error)
     return NextResponse.json(
       { error: 'Failed to create model' },
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { modelSync, SyncDirection, syncDirections } from '@/lib/model-sync'
+import { rbac } from '@/lib/rbac'
+
+// Report drift between the model rows and the /models JSON files
+export async function GET(request: NextRequest) {
+  try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await rbac.hasSystemPermission(user, 'model:publish'))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json({ drift: await modelSync.detect() })
+  } catch (error) {
+    console.error('Error detecting model drift:', error)
+    return NextResponse.json(
+      { error: 'Failed to detect model drift' },
+      { status: 500 }
+    )
+  }
+}
+
+// Reconcile the drift: { direction: 'db' | 'files', confirm?: boolean }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await rbac.hasSystemPermission(user, 'model:publish'))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    if (!syncDirections.includes(body.direction)) {
+      return NextResponse.json(
+        { error: `direction must be one of ${syncDirections.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const results = await modelSync.reconcile(body.direction as SyncDirection, user, body.confirm === true)
+
+    return NextResponse.json({ results })
+  } catch (error) {
+    console.error('Error reconciling models:', error)
+    return NextResponse.json(
+      { error: 'Failed to reconcile models' },
+      { status: 500 }
+    )
+  }
+}
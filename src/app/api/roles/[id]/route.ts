@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { rbac } from '@/lib/rbac'
+import { RoleConflictError, RoleError, roles } from '@/lib/roles'
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!user.isAdmin || user.authMethod !== 'session') {
+      return NextResponse.json(
+        { error: 'Only signed-in admins can manage roles' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const role = await roles.update(params.id, {
+      name: body.name,
+      description: body.description,
+      isAdmin: body.isAdmin,
+      parent: body.parent,
+      permissions: body.permissions,
+    })
+    if (!role) {
+      return NextResponse.json(
+        { error: 'Role not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(role)
+  } catch (error) {
+    if (error instanceof RoleError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof RoleConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+    console.error('Error updating role:', error)
+    return NextResponse.json(
+      { error: 'Failed to update role' },
+      { status: 500 }
+    )
+  }
+}
+
+// Roles still assigned to users, inherited by other roles or named by a model cannot be deleted
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!user.isAdmin || user.authMethod !== 'session') {
+      return NextResponse.json(
+        { error: 'Only signed-in admins can manage roles' },
+        { status: 403 }
+      )
+    }
+
+    const deleted = await roles.delete(params.id)
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Role not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Role deleted successfully' })
+  } catch (error) {
+    if (error instanceof RoleConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+    console.error('Error deleting role:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete role' },
+      { status: 500 }
+    )
+  }
+}
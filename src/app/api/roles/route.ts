@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { rbac } from '@/lib/rbac'
+import { RoleConflictError, RoleError, roles } from '@/lib/roles'
+
+// Every signed-in user may list roles; the model designer renders them
+export async function GET(request: NextRequest) {
+  try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json(await roles.list())
+  } catch (error) {
+    console.error('Error fetching roles:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch roles' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await rbac.authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!user.isAdmin || user.authMethod !== 'session') {
+      return NextResponse.json(
+        { error: 'Only signed-in admins can manage roles' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const role = await roles.create({
+      name: body.name,
+      description: body.description,
+      isAdmin: body.isAdmin,
+      parent: body.parent,
+      permissions: body.permissions,
+    })
+
+    return NextResponse.json(role, { status: 201 })
+  } catch (error) {
+    if (error instanceof RoleError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof RoleConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+    console.error('Error creating role:', error)
+    return NextResponse.json(
+      { error: 'Failed to create role' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,27 +1,34 @@
 'use client'
 
 import { useState } from 'react'
+import { signOut, useSession } from 'next-auth/react'
 import { ModelDefinitionForm } from '@/components/model-definition-form'
 import { ModelList } from '@/components/model-list'
 import { ModelDataAdmin } from '@/components/model-data-admin'
+import { ApiKeyManager } from '@/components/api-key-manager'
+import { RoleManager } from '@/components/role-manager'
+import { AuditLogViewer } from '@/components/audit-log-viewer'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Database, Settings, BarChart3 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Database, Settings, BarChart3, LogOut, KeyRound, Users } from 'lucide-react'
 
 interface ModelDefinition {
   id: string
   name: string
   tableName?: string
   definition: string
-  isPublished: boolean
+  status: 'draft' | 'published' | 'deprecated' | 'archived'
   createdBy: string
   createdAt: string
   updatedAt: string
 }
 
-type ViewMode = 'list' | 'create' | 'edit' | 'manage' | null
+type ViewMode = 'list' | 'create' | 'edit' | 'manage' | 'apiKeys' | 'roles' | 'audit' | null
 
 export default function Home() {
+  const { data: session } = useSession()
   const [viewMode, setViewMode] = useState<ViewMode>(null)
   const [selectedModel, setSelectedModel] = useState<ModelDefinition | null>(null)
   const [editingModel, setEditingModel] = useState<ModelDefinition | null>(null)
@@ -156,6 +163,15 @@ export default function Home() {
           <ModelDataAdmin model={selectedModel} onBack={handleBackToList} />
         ) : null
 
+      case 'apiKeys':
+        return <ApiKeyManager onBack={handleBackToList} />
+
+      case 'roles':
+        return <RoleManager onBack={handleBackToList} />
+
+      case 'audit':
+        return <AuditLogViewer onBack={handleBackToList} />
+
       default:
         return (
           <ModelList
@@ -165,6 +181,7 @@ export default function Home() {
             onDeleteModel={handleDeleteModel}
             onPublishModel={handlePublishModel}
             onManageData={handleManageData}
+            onViewAudit={() => setViewMode('audit')}
           />
         )
     }
@@ -174,9 +191,29 @@ export default function Home() {
     <div className="min-h-screen bg-background">
       <div className="container mx-auto py-8 px-4">
         <div className="mb-8">
-          <div className="flex items-center gap-3 mb-4">
-            <Database className="w-8 h-8 text-primary" />
-            <h1 className="text-4xl font-bold">CRUD + RBAC Platform</h1>
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <Database className="w-8 h-8 text-primary" />
+              <h1 className="text-4xl font-bold">CRUD + RBAC Platform</h1>
+            </div>
+            {session?.user && (
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-muted-foreground">{session.user.email}</span>
+                <Badge variant="secondary">{session.user.role}</Badge>
+                <Button variant="outline" size="sm" onClick={() => setViewMode('roles')}>
+                  <Users className="w-4 h-4 mr-2" />
+                  Roles
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setViewMode('apiKeys')}>
+                  <KeyRound className="w-4 h-4 mr-2" />
+                  API Keys
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => signOut({ callbackUrl: '/login' })}>
+                  <LogOut className="w-4 h-4 mr-2" />
+                  Sign out
+                </Button>
+              </div>
+            )}
           </div>
           <p className="text-xl text-muted-foreground">
             Define data models, generate CRUD APIs, and manage role-based access control
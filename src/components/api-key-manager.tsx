@@ -0,0 +1,294 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { ArrowLeft, KeyRound, Plus, RefreshCw, Trash2 } from 'lucide-react'
+
+const actions = ['create', 'read', 'update', 'delete', 'purge'] as const
+
+interface ApiKeyInfo {
+  id: string
+  name: string
+  prefix: string
+  scope: { models?: string[]; actions?: string[] } | null
+  lastUsedAt: string | null
+  revokedAt: string | null
+  createdAt: string
+}
+
+interface ApiKeyManagerProps {
+  onBack: () => void
+}
+
+export function ApiKeyManager({ onBack }: ApiKeyManagerProps) {
+  const [keys, setKeys] = useState<ApiKeyInfo[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [models, setModels] = useState('')
+  const [selectedActions, setSelectedActions] = useState<string[]>([...actions])
+  const [newKey, setNewKey] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchKeys()
+  }, [])
+
+  const fetchKeys = async () => {
+    try {
+      const response = await fetch('/api/keys')
+      if (!response.ok) {
+        throw new Error('Failed to fetch API keys')
+      }
+      setKeys(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleAction = (action: string) => {
+    setSelectedActions(prev =>
+      prev.includes(action) ? prev.filter(a => a !== action) : [...prev, action]
+    )
+  }
+
+  const handleCreate = async () => {
+    const modelNames = models.split(',').map(model => model.trim()).filter(Boolean)
+    const scope: { models?: string[]; actions?: string[] } = {}
+    if (modelNames.length > 0) {
+      scope.models = modelNames
+    }
+    if (selectedActions.length < actions.length) {
+      scope.actions = selectedActions
+    }
+
+    try {
+      const response = await fetch('/api/keys', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name, scope: Object.keys(scope).length > 0 ? scope : undefined }),
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to create API key')
+      }
+
+      const result = await response.json()
+      setNewKey(result.key)
+      setName('')
+      setModels('')
+      setSelectedActions([...actions])
+      await fetchKeys()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  const handleRotate = async (keyId: string) => {
+    if (!confirm('The current key stops working immediately. Rotate it?')) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/keys/${keyId}/rotate`, {
+        method: 'POST',
+      })
+      if (!response.ok) {
+        throw new Error('Failed to rotate API key')
+      }
+
+      const result = await response.json()
+      setNewKey(result.key)
+      await fetchKeys()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  const handleRevoke = async (keyId: string) => {
+    if (!confirm('Are you sure you want to revoke this API key?')) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/keys/${keyId}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) {
+        throw new Error('Failed to revoke API key')
+      }
+      await fetchKeys()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center h-32">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="mt-2 text-sm text-muted-foreground">Loading API keys...</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" onClick={onBack}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Models
+        </Button>
+        <div>
+          <h2 className="text-2xl font-bold">API Keys</h2>
+          <p className="text-muted-foreground">
+            Keys for services calling the CRUD APIs with an Authorization: Bearer header
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {newKey && (
+        <Alert>
+          <KeyRound className="w-4 h-4" />
+          <AlertDescription>
+            <p className="font-medium">Copy this key now. It will not be shown again.</p>
+            <code className="block mt-2 break-all font-mono text-sm">{newKey}</code>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Create Key</CardTitle>
+          <CardDescription>
+            Leave models empty to allow every model the key owner can access
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Name</label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., billing-service"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Models</label>
+              <Input
+                value={models}
+                onChange={(e) => setModels(e.target.value)}
+                placeholder="e.g., invoice, customer"
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {actions.map((action) => (
+              <div key={action} className="flex items-center space-x-2">
+                <Switch
+                  checked={selectedActions.includes(action)}
+                  onCheckedChange={() => toggleAction(action)}
+                />
+                <label className="text-sm capitalize">{action}</label>
+              </div>
+            ))}
+          </div>
+          <Button onClick={handleCreate} disabled={!name || selectedActions.length === 0}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create Key
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Keys</CardTitle>
+          <CardDescription>{keys.length} keys</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {keys.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground">No API keys yet.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Last Used</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {keys.map((key) => (
+                  <TableRow key={key.id}>
+                    <TableCell className="font-medium">{key.name}</TableCell>
+                    <TableCell className="font-mono text-sm">{key.prefix}…</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {(key.scope?.models || ['all models']).map((model) => (
+                          <Badge key={model} variant="outline">{model}</Badge>
+                        ))}
+                        {(key.scope?.actions || ['all actions']).map((action) => (
+                          <Badge key={action} variant="secondary">{action}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {key.lastUsedAt ? new Date(key.lastUsedAt).toLocaleString() : 'Never'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={key.revokedAt ? 'destructive' : 'default'}>
+                        {key.revokedAt ? 'Revoked' : 'Active'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {!key.revokedAt && (
+                        <div className="flex items-center gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => handleRotate(key.id)}>
+                            <RefreshCw className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRevoke(key.id)}
+                            className="text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
\ No newline at end of file
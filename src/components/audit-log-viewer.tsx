@@ -0,0 +1,264 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { ArrowLeft, Search } from 'lucide-react'
+
+const actions = ['create', 'update', 'delete', 'publish', 'restore', 'purge', 'deprecate', 'archive', 'unpublish', 'link', 'unlink']
+const sources = ['ui', 'api_key', 'socket', 'system']
+const PAGE_SIZE = 50
+
+// Select items cannot have an empty value
+const ANY = '__any__'
+
+interface AuditLogInfo {
+  id: string
+  actorId: string | null
+  actorEmail: string | null
+  role: string | null
+  entity: 'record' | 'model'
+  model: string
+  recordId: string | null
+  action: string
+  changes: Record<string, { before: unknown; after: unknown }>
+  source: string
+  createdAt: string
+}
+
+interface AuditLogViewerProps {
+  onBack: () => void
+}
+
+export function AuditLogViewer({ onBack }: AuditLogViewerProps) {
+  const [entries, setEntries] = useState<AuditLogInfo[]>([])
+  const [total, setTotal] = useState(0)
+  const [offset, setOffset] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [model, setModel] = useState('')
+  const [recordId, setRecordId] = useState('')
+  const [action, setAction] = useState(ANY)
+  const [source, setSource] = useState(ANY)
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+
+  useEffect(() => {
+    fetchEntries(0)
+  }, [])
+
+  const fetchEntries = async (nextOffset: number) => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(nextOffset) })
+      if (model) params.set('model', model)
+      if (recordId) params.set('recordId', recordId)
+      if (action !== ANY) params.set('action', action)
+      if (source !== ANY) params.set('source', source)
+      if (from) params.set('from', new Date(from).toISOString())
+      if (to) params.set('to', new Date(to).toISOString())
+
+      const response = await fetch(`/api/audit?${params}`)
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to fetch audit log')
+      }
+
+      const page = await response.json()
+      setEntries(page.data)
+      setTotal(page.total)
+      setOffset(nextOffset)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" onClick={onBack}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Models
+        </Button>
+        <div>
+          <h2 className="text-2xl font-bold">Audit Log</h2>
+          <p className="text-muted-foreground">
+            Every change to records and model definitions, newest first
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+          <CardDescription>Leave a filter empty to match every entry</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Model</label>
+              <Input value={model} onChange={(e) => setModel(e.target.value)} placeholder="e.g., Invoice" />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Record ID</label>
+              <Input value={recordId} onChange={(e) => setRecordId(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Action</label>
+              {renderChoiceSelect(action, setAction, actions)}
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Source</label>
+              {renderChoiceSelect(source, setSource, sources)}
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">From</label>
+              <Input type="datetime-local" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">To</label>
+              <Input type="datetime-local" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+          <Button onClick={() => fetchEntries(0)}>
+            <Search className="w-4 h-4 mr-2" />
+            Search
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Entries</CardTitle>
+          <CardDescription>
+            {total} entr{total === 1 ? 'y' : 'ies'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No entries match the filters</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Changes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      <div>{entry.actorEmail || entry.actorId || '-'}</div>
+                      {entry.role && <Badge variant="secondary">{entry.role}</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={entry.action === 'delete' || entry.action === 'purge' ? 'destructive' : 'outline'}>
+                        {entry.entity === 'model' ? `model ${entry.action}` : entry.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{entry.model}</div>
+                      {entry.recordId && (
+                        <div className="text-xs text-muted-foreground font-mono">{entry.recordId}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{entry.source}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="space-y-1 text-xs font-mono">
+                        {Object.entries(entry.changes).map(([field, change]) => (
+                          <div key={field}>
+                            <span className="font-semibold">{field}</span>:{' '}
+                            <span className="text-muted-foreground line-through">{formatValue(change.before)}</span>
+                            {' → '}
+                            <span>{formatValue(change.after)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fetchEntries(Math.max(0, offset - PAGE_SIZE))}
+              disabled={offset === 0 || loading}
+            >
+              Previous
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              {total === 0 ? 0 : offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fetchEntries(offset + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= total || loading}
+            >
+              Next
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+function renderChoiceSelect(value: string, onChange: (value: string) => void, options: string[]) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>Any</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option} value={option}>
+            {option}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+// Long values such as field lists are cut so a row stays readable
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '∅'
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text
+}
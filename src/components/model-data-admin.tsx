@@ -1,9 +1,9 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import * as z from 'zod'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
@@ -15,14 +15,21 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Badge } from '@/components/ui/badge'
 import { Switch } from '@/components/ui/switch'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Plus, Edit, Trash2, Save, ArrowLeft } from 'lucide-react'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { RecordHistory } from '@/components/record-history'
+import { RecordLinks } from '@/components/record-links'
+import { RecordPicker } from '@/components/record-picker'
+import { RecordTrash } from '@/components/record-trash'
+import { Plus, Edit, Trash2, Save, ArrowLeft, X } from 'lucide-react'
+import { getDecimalFormat } from '@/lib/field-formats'
+import { buildRecordSchema } from '@/lib/record-validation'
 
 interface ModelDefinition {
   id: string
   name: string
   tableName?: string
   definition: string
-  isPublished: boolean
+  status: 'draft' | 'published' | 'deprecated' | 'archived'
   createdBy: string
   createdAt: string
   updatedAt: string
@@ -38,29 +45,75 @@ interface RecordData {
   [key: string]: any
 }
 
+const PAGE_SIZE = 50
+
+// Native inputs of the field types edited in a single-line input
+const INPUT_TYPES: Record<string, string> = {
+  number: 'number',
+  integer: 'number',
+  decimal: 'number',
+  email: 'email',
+  url: 'url',
+  date: 'datetime-local',
+  dateOnly: 'date',
+}
+
+const getDecimalStep = (field: any) => 10 ** -getDecimalFormat(field).scale
+
+/**
+ * The text an input shows for a stored value
+ */
+const toFormValue = (field: any, value: any): string => {
+  if (value === null || value === undefined) {
+    return ''
+  }
+  switch (field.type) {
+    case 'json':
+      return JSON.stringify(value, null, 2)
+    case 'date': {
+      // datetime-local takes the local time without a zone
+      const date = new Date(value)
+      return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+    }
+    default:
+      return String(value)
+  }
+}
+
 export function ModelDataAdmin({ model, onBack }: ModelDataAdminProps) {
   const [records, setRecords] = useState<RecordData[]>([])
+  const [total, setTotal] = useState(0)
+  const [offset, setOffset] = useState(0)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [editingRecord, setEditingRecord] = useState<RecordData | null>(null)
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
 
+  const { data: session } = useSession()
   const modelDef = JSON.parse(model.definition)
-  const modelName = model.name.toLowerCase()
+  const modelName = model.name
+
+  // Mirror the server's field-level permissions for the signed-in role
+  const role = session?.user?.role
+  const canReadField = (field: any) => !role || field.permissions?.[role]?.read !== false
+  const canWriteField = (field: any) => !role || field.permissions?.[role]?.write !== false
+  const readableFields = modelDef.fields.filter(canReadField)
+  const editableFields = readableFields.filter(canWriteField)
 
   useEffect(() => {
     fetchRecords()
-  }, [modelName])
+  }, [modelName, offset])
 
   const fetchRecords = async () => {
     try {
-      const response = await fetch(`/api/crud/${modelName}`)
+      const response = await fetch(`/api/crud/${modelName}?limit=${PAGE_SIZE}&offset=${offset}`)
       if (!response.ok) {
         throw new Error('Failed to fetch records')
       }
-      const data = await response.json()
-      setRecords(Array.isArray(data) ? data : [data])
+      const page = await response.json()
+      setRecords(page.data)
+      setTotal(page.total)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error')
     } finally {
@@ -68,27 +121,17 @@ export function ModelDataAdmin({ model, onBack }: ModelDataAdminProps) {
     }
   }
 
-  const createRecordSchema = z.object(
-    modelDef.fields.reduce((acc: any, field: any) => {
-      if (field.required) {
-        acc[field.name] = z.string().min(1, `${field.name} is required`)
-      } else {
-        acc[field.name] = z.string().optional()
-      }
-      return acc
-    }, {})
-  )
-
+  // The server's validator checks only the editable fields; zod strips the rest from the payload
   const createForm = useForm({
-    resolver: zodResolver(createRecordSchema),
+    resolver: zodResolver(buildRecordSchema(editableFields)),
     defaultValues: modelDef.fields.reduce((acc: any, field: any) => {
-      acc[field.name] = field.default || ''
+      acc[field.name] = field.type === 'boolean' ? field.default === 'true' : field.default || ''
       return acc
     }, {}),
   })
 
   const editForm = useForm({
-    resolver: zodResolver(createRecordSchema),
+    resolver: zodResolver(buildRecordSchema(editableFields, { partial: true })),
     defaultValues: {},
   })
 
@@ -103,7 +146,9 @@ export function ModelDataAdmin({ model, onBack }: ModelDataAdminProps) {
       })
 
       if (!response.ok) {
-        throw new Error('Failed to create record')
+        // e.g. a reference to a missing related record
+        const result = await response.json().catch(() => null)
+        throw new Error(result?.error || 'Failed to create record')
       }
 
       await fetchRecords()
@@ -127,7 +172,9 @@ export function ModelDataAdmin({ model, onBack }: ModelDataAdminProps) {
       })
 
       if (!response.ok) {
-        throw new Error('Failed to update record')
+        // e.g. a reference to a missing related record
+        const result = await response.json().catch(() => null)
+        throw new Error(result?.error || 'Failed to update record')
       }
 
       await fetchRecords()
@@ -140,7 +187,10 @@ export function ModelDataAdmin({ model, onBack }: ModelDataAdminProps) {
   }
 
   const handleDeleteRecord = async (recordId: string) => {
-    if (!confirm('Are you sure you want to delete this record?')) {
+    const question = modelDef.softDelete
+      ? 'Move this record to the trash?'
+      : 'Are you sure you want to delete this record?'
+    if (!confirm(question)) {
       return
     }
 
@@ -150,7 +200,9 @@ export function ModelDataAdmin({ model, onBack }: ModelDataAdminProps) {
       })
 
       if (!response.ok) {
-        throw new Error('Failed to delete record')
+        // e.g. a restrict relation that blocks the delete
+        const result = await response.json().catch(() => null)
+        throw new Error(result?.error || 'Failed to delete record')
       }
 
       await fetchRecords()
@@ -164,8 +216,8 @@ export function ModelDataAdmin({ model, onBack }: ModelDataAdminProps) {
     
     // Set form values
     const formValues: any = {}
-    modelDef.fields.forEach((field: any) => {
-      formValues[field.name] = record[field.name] || ''
+    readableFields.forEach((field: any) => {
+      formValues[field.name] = toFormValue(field, record[field.name])
     })
     editForm.reset(formValues)
     
@@ -173,6 +225,7 @@ export function ModelDataAdmin({ model, onBack }: ModelDataAdminProps) {
   }
 
   const renderFormField = (field: any, form: any, control: any) => {
+    const disabled = !canWriteField(field)
     const commonProps = {
       control,
       name: field.name,
@@ -187,26 +240,58 @@ export function ModelDataAdmin({ model, onBack }: ModelDataAdminProps) {
               <Switch
                 checked={formField.value === 'true' || formField.value === true}
                 onCheckedChange={formField.onChange}
+                disabled={disabled}
               />
             ) : field.type === 'text' ? (
               <Textarea
                 placeholder={`Enter ${field.name}`}
                 {...formField}
                 value={formField.value || ''}
+                disabled={disabled}
               />
-            ) : field.type === 'date' ? (
-              <Input
-                type="datetime-local"
-                placeholder={`Enter ${field.name}`}
+            ) : field.type === 'relation' ? (
+              <RecordPicker
+                modelName={field.relation}
+                value={formField.value || ''}
+                onChange={formField.onChange}
+                disabled={disabled}
+              />
+            ) : field.type === 'json' ? (
+              <Textarea
+                className="font-mono text-sm"
+                placeholder='{"key": "value"}'
                 {...formField}
                 value={formField.value || ''}
+                disabled={disabled}
               />
+            ) : field.type === 'enum' ? (
+              <div className="flex gap-2">
+                <Select value={formField.value || ''} onValueChange={formField.onChange} disabled={disabled}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder={`Select ${field.name}`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {field.options.map((option: string) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {formField.value && !field.required && !disabled && (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => formField.onChange('')}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
             ) : (
               <Input
-                type={field.type === 'number' ? 'number' : 'text'}
+                type={INPUT_TYPES[field.type] || 'text'}
+                step={field.type === 'decimal' ? getDecimalStep(field) : field.type === 'integer' ? 1 : undefined}
                 placeholder={`Enter ${field.name}`}
                 {...formField}
                 value={formField.value || ''}
+                disabled={disabled}
               />
             )}
           </FormControl>
@@ -227,14 +312,156 @@ export function ModelDataAdmin({ model, onBack }: ModelDataAdminProps) {
       case 'boolean':
         return value ? 'Yes' : 'No'
       case 'date':
-        return new Date(value).toLocaleDateString()
+        return new Date(value).toLocaleString()
+      case 'dateOnly':
+        // A calendar day, shown without shifting it into the local time zone
+        return new Date(`${value}T00:00:00`).toLocaleDateString()
       case 'number':
+      case 'integer':
+      case 'decimal':
         return Number(value).toLocaleString()
+      case 'json':
+        return JSON.stringify(value)
       default:
         return String(value)
     }
   }
 
+  const renderRecords = () => (
+    <Card>
+      <CardHeader>
+        <CardTitle>Records</CardTitle>
+        <CardDescription>
+          {total} records found
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {records.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">No records found. Create your first record to get started.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>ID</TableHead>
+                  {readableFields.map((field: any) => (
+                    <TableHead key={field.name} className="capitalize">
+                      {field.name}
+                      {field.required && <span className="text-red-500 ml-1">*</span>}
+                    </TableHead>
+                  ))}
+                  <TableHead>Created</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {records.map((record) => (
+                  <TableRow key={record.id}>
+                    <TableCell className="font-mono text-sm">
+                      {record.id}
+                    </TableCell>
+                    {readableFields.map((field: any) => (
+                      <TableCell key={field.name}>
+                        {formatFieldValue(record[field.name], field.type)}
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      {new Date(record.createdAt).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
+                          <DialogTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openEditDialog(record)}
+                            >
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                          </DialogTrigger>
+                          <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+                            <DialogHeader>
+                              <DialogTitle>Edit {model.name} Record</DialogTitle>
+                              <DialogDescription>
+                                Update the record information
+                              </DialogDescription>
+                            </DialogHeader>
+                            <Form {...editForm}>
+                              <form onSubmit={editForm.handleSubmit(handleUpdateRecord)} className="space-y-4">
+                                {readableFields.map((field: any) => renderFormField(field, editForm, editForm.control))}
+                                <div className="flex justify-end">
+                                  <Button type="submit">
+                                    <Save className="w-4 h-4 mr-2" />
+                                    Update Record
+                                  </Button>
+                                </div>
+                              </form>
+                            </Form>
+                          </DialogContent>
+                        </Dialog>
+
+                        <RecordHistory
+                          modelName={modelName}
+                          recordId={record.id}
+                          onRestored={fetchRecords}
+                        />
+
+                        {modelDef.links?.length > 0 && (
+                          <RecordLinks
+                            modelName={modelName}
+                            recordId={record.id}
+                            links={modelDef.links}
+                          />
+                        )}
+
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteRecord(record.id)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {total > PAGE_SIZE && (
+              <div className="flex items-center justify-between pt-4">
+                <p className="text-sm text-muted-foreground">
+                  Showing {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total}
+                </p>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={offset === 0}
+                    onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={offset + PAGE_SIZE >= total}
+                    onClick={() => setOffset(offset + PAGE_SIZE)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+
   if (loading) {
     return (
       <Card>
@@ -287,7 +514,7 @@ export function ModelDataAdmin({ model, onBack }: ModelDataAdminProps) {
             </DialogHeader>
             <Form {...createForm}>
               <form onSubmit={createForm.handleSubmit(handleCreateRecord)} className="space-y-4">
-                {modelDef.fields.map((field: any) => renderFormField(field, createForm, createForm.control))}
+                {editableFields.map((field: any) => renderFormField(field, createForm, createForm.control))}
                 <div className="flex justify-end">
                   <Button type="submit">
                     <Save className="w-4 h-4 mr-2" />
@@ -300,99 +527,37 @@ export function ModelDataAdmin({ model, onBack }: ModelDataAdminProps) {
         </Dialog>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Records</CardTitle>
-          <CardDescription>
-            {records.length} records found
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          {records.length === 0 ? (
-            <div className="text-center py-8">
-              <p className="text-muted-foreground">No records found. Create your first record to get started.</p>
-            </div>
-          ) : (
-            <div className="overflow-x-auto">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>ID</TableHead>
-                    {modelDef.fields.map((field: any) => (
-                      <TableHead key={field.name} className="capitalize">
-                        {field.name}
-                        {field.required && <span className="text-red-500 ml-1">*</span>}
-                      </TableHead>
-                    ))}
-                    <TableHead>Created</TableHead>
-                    <TableHead>Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {records.map((record) => (
-                    <TableRow key={record.id}>
-                      <TableCell className="font-mono text-sm">
-                        {record.id}
-                      </TableCell>
-                      {modelDef.fields.map((field: any) => (
-                        <TableCell key={field.name}>
-                          {formatFieldValue(record[field.name], field.type)}
-                        </TableCell>
-                      ))}
-                      <TableCell>
-                        {new Date(record.createdAt).toLocaleDateString()}
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-2">
-                          <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-                            <DialogTrigger asChild>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => openEditDialog(record)}
-                              >
-                                <Edit className="w-4 h-4" />
-                              </Button>
-                            </DialogTrigger>
-                            <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
-                              <DialogHeader>
-                                <DialogTitle>Edit {model.name} Record</DialogTitle>
-                                <DialogDescription>
-                                  Update the record information
-                                </DialogDescription>
-                              </DialogHeader>
-                              <Form {...editForm}>
-                                <form onSubmit={editForm.handleSubmit(handleUpdateRecord)} className="space-y-4">
-                                  {modelDef.fields.map((field: any) => renderFormField(field, editForm, editForm.control))}
-                                  <div className="flex justify-end">
-                                    <Button type="submit">
-                                      <Save className="w-4 h-4 mr-2" />
-                                      Update Record
-                                    </Button>
-                                  </div>
-                                </form>
-                              </Form>
-                            </DialogContent>
-                          </Dialog>
-
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleDeleteRecord(record.id)}
-                            className="text-destructive hover:text-destructive"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+      {modelDef.softDelete ? (
+        <Tabs defaultValue="records">
+          <TabsList>
+            <TabsTrigger value="records">Records</TabsTrigger>
+            <TabsTrigger value="trash">Trash</TabsTrigger>
+          </TabsList>
+          <TabsContent value="records">
+            {renderRecords()}
+          </TabsContent>
+          <TabsContent value="trash">
+            <Card>
+              <CardHeader>
+                <CardTitle>Trash</CardTitle>
+                <CardDescription>
+                  Deleted records{modelDef.retentionDays ? ` are purged after ${modelDef.retentionDays} days` : ' are kept until they are purged'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RecordTrash
+                  modelName={modelName}
+                  fields={readableFields}
+                  formatFieldValue={formatFieldValue}
+                  onRestored={fetchRecords}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      ) : (
+        renderRecords()
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -13,33 +13,62 @@ import { Textarea } from '@/components/ui/textarea'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Switch } from '@/components/ui/switch'
+import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Plus, Trash2, Save } from 'lucide-react'
+import { DEFAULT_DECIMAL_SCALE, MAX_DECIMAL_PRECISION, numericFieldTypes, textFieldTypes } from '@/lib/field-formats'
+import {
+  fieldSchema,
+  fieldValidationSchema,
+  fieldTypes,
+  linkSchema,
+  modelDefinitionSchema,
+  ModelValidationError,
+  ModelValidationIssue,
+  onDeleteActions,
+  parseModelDefinition,
+  policyActions,
+  policySchema,
+  rbacActions,
+} from '@/lib/model-schema'
 
-const fieldTypes = ['string', 'number', 'boolean', 'date', 'text'] as const
-const roles = ['Admin', 'Manager', 'Viewer'] as const
-const permissions = ['create', 'read', 'update', 'delete'] as const
-
-const fieldSchema = z.object({
-  name: z.string().min(1, 'Field name is required'),
-  type: z.enum(fieldTypes),
-  required: z.boolean().default(false),
-  default: z.string().optional(),
-  unique: z.boolean().default(false),
-  relation: z.string().optional(),
-})
-
-const rbacSchema = z.record(z.enum(roles), z.array(z.enum(permissions)))
-
-const modelSchema = z.object({
-  name: z.string().min(1, 'Model name is required'),
-  tableName: z.string().optional(),
-  fields: z.array(fieldSchema).min(1, 'At least one field is required'),
-  ownerField: z.string().optional(),
-  rbac: rbacSchema,
-})
-
-type ModelFormData = z.infer<typeof modelSchema>
+type ModelFormData = z.infer<typeof modelDefinitionSchema>
 type FieldFormData = z.infer<typeof fieldSchema>
+type FieldValidationFormData = z.infer<typeof fieldValidationSchema>
+type PolicyFormData = z.infer<typeof policySchema>
+type LinkFormData = z.infer<typeof linkSchema>
+
+const FIELD_TYPE_LABELS: Record<typeof fieldTypes[number], string> = {
+  string: 'String',
+  text: 'Text (multi-line)',
+  email: 'Email',
+  url: 'URL',
+  enum: 'Enum (fixed options)',
+  number: 'Number',
+  integer: 'Integer',
+  decimal: 'Decimal',
+  boolean: 'Boolean',
+  date: 'Date and time',
+  dateOnly: 'Date only',
+  json: 'JSON',
+  relation: 'Relation',
+}
+
+// Defaults are written as text in the format of the field type
+const DEFAULT_EXAMPLES: Partial<Record<typeof fieldTypes[number], string>> = {
+  enum: 'One of the options',
+  dateOnly: 'e.g., 2024-01-31',
+  date: 'e.g., 2024-01-31T09:00:00Z',
+  json: 'e.g., {"tags": []}',
+}
+
+const isNumericType = (type: string) => (numericFieldTypes as readonly string[]).includes(type)
+const isTextType = (type: string) => (textFieldTypes as readonly string[]).includes(type)
+
+const ON_DELETE_LABELS: Record<typeof onDeleteActions[number], string> = {
+  restrict: 'Restrict: block the delete',
+  cascade: 'Cascade: delete this record too',
+  setNull: 'Set null: clear this field',
+}
 
 interface ModelDefinitionFormProps {
   onSubmit: (data: ModelFormData) => void
@@ -50,31 +79,79 @@ export function ModelDefinitionForm({ onSubmit, initialData }: ModelDefinitionFo
   const [fields, setFields] = useState<FieldFormData[]>(
     initialData?.fields || [{ name: '', type: 'string', required: false, unique: false }]
   )
-  const [rbac, setRbac] = useState<Record<string, string[]>>(
+  const [rbac, setRbac] = useState<ModelFormData['rbac']>(
     initialData?.rbac || {
-      Admin: ['create', 'read', 'update', 'delete'],
+      Admin: ['create', 'read', 'update', 'delete', 'purge'],
       Manager: ['create', 'read', 'update'],
       Viewer: ['read'],
     }
   )
+  const [policies, setPolicies] = useState<PolicyFormData[]>(initialData?.policies || [])
+  const [links, setLinks] = useState<LinkFormData[]>(initialData?.links || [])
+  const [softDelete, setSoftDelete] = useState(initialData?.softDelete || false)
+  const [retentionDays, setRetentionDays] = useState<number | undefined>(initialData?.retentionDays ?? undefined)
+  const [roles, setRoles] = useState<string[]>(Object.keys(rbac))
+  const [parents, setParents] = useState<Record<string, string | null>>({})
+  const [modelNames, setModelNames] = useState<string[]>([])
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [issues, setIssues] = useState<ModelValidationIssue[]>([])
 
   const form = useForm<ModelFormData>({
-    resolver: zodResolver(modelSchema),
+    resolver: zodResolver(modelDefinitionSchema),
     defaultValues: {
       name: initialData?.name || '',
       tableName: initialData?.tableName || '',
       fields: fields,
       ownerField: initialData?.ownerField || '',
+      softDelete: softDelete,
+      retentionDays: retentionDays,
       rbac: rbac,
+      policies: policies,
+      links: links,
     },
   })
 
-  // Update form when fields or rbac change
+  useEffect(() => {
+    const fetchRoles = async () => {
+      try {
+        const response = await fetch('/api/roles')
+        if (response.ok) {
+          const data: Array<{ name: string; parent: string | null }> = await response.json()
+          setRoles(data.map(role => role.name))
+          setParents(Object.fromEntries(data.map(role => [role.name, role.parent])))
+        }
+      } catch (error) {
+        console.error('Error fetching roles:', error)
+      }
+    }
+
+    // Relations and links can point at any model; publishing checks the target is live
+    const fetchModels = async () => {
+      try {
+        const response = await fetch('/api/models')
+        if (response.ok) {
+          const data: Array<{ name: string }> = await response.json()
+          setModelNames(data.map(model => model.name).sort())
+        }
+      } catch (error) {
+        console.error('Error fetching models:', error)
+      }
+    }
+
+    fetchRoles()
+    fetchModels()
+  }, [])
+
+  // Update form when fields, rbac, policies, links or the trash settings change
   useEffect(() => {
     form.setValue('fields', fields)
     form.setValue('rbac', rbac)
-  }, [fields, rbac, form])
+    form.setValue('policies', policies)
+    form.setValue('links', links)
+    form.setValue('softDelete', softDelete)
+    // Without soft delete there is no trash to expire
+    form.setValue('retentionDays', softDelete ? retentionDays : undefined)
+  }, [fields, rbac, policies, links, softDelete, retentionDays, form])
 
   const addField = () => {
     const newField: FieldFormData = { name: '', type: 'string', required: false, unique: false }
@@ -93,7 +170,54 @@ export function ModelDefinitionForm({ onSubmit, initialData }: ModelDefinitionFo
     setFields(updatedFields)
   }
 
-  const togglePermission = (role: string, permission: string) => {
+  const changeFieldType = (index: number, type: typeof fieldTypes[number]) => {
+    // Type settings only apply to their own type; relation fields take no default
+    updateField(index, {
+      type,
+      ...(type === 'relation'
+        ? { default: undefined, onDelete: fields[index].onDelete || 'restrict' }
+        : { relation: undefined, onDelete: undefined }),
+      options: type === 'enum' ? fields[index].options || [] : undefined,
+      precision: type === 'decimal' ? fields[index].precision : undefined,
+      scale: type === 'decimal' ? fields[index].scale : undefined,
+      // Rules depend on the type; only the custom message carries over
+      validation: fields[index].validation?.message ? { message: fields[index].validation.message } : undefined,
+    })
+  }
+
+  const parseDigits = (value: string) => value === '' ? undefined : Number(value)
+
+  // Unset rules are dropped so the definition only lists the rules in use
+  const updateValidation = (index: number, rules: Partial<FieldValidationFormData>) => {
+    const merged: Record<string, unknown> = { ...fields[index].validation, ...rules }
+    const validation = Object.fromEntries(Object.entries(merged).filter(([, value]) => value !== undefined && value !== ''))
+    updateField(index, { validation: Object.keys(validation).length > 0 ? validation as FieldValidationFormData : undefined })
+  }
+
+  // One allowed value per line; numeric fields keep a line as text until it reads as a number
+  const parseAllowedValues = (text: string, numeric: boolean) => text === ''
+    ? undefined
+    : text.split('\n').map(line => numeric && line.trim() !== '' && String(Number(line)) === line.trim() ? Number(line) : line)
+
+  // The model being designed can relate to itself
+  const modelName = form.watch('name')
+  const relationTargets = modelName && !modelNames.includes(modelName)
+    ? [...modelNames, modelName].sort()
+    : modelNames
+
+  const addLink = () => {
+    setLinks([...links, { name: '', model: '' }])
+  }
+
+  const removeLink = (index: number) => {
+    setLinks(links.filter((_, i) => i !== index))
+  }
+
+  const updateLink = (index: number, link: Partial<LinkFormData>) => {
+    setLinks(links.map((current, i) => (i === index ? { ...current, ...link } : current)))
+  }
+
+  const togglePermission = (role: string, permission: typeof rbacActions[number]) => {
     setRbac(prev => {
       const currentPermissions = prev[role] || []
       const updatedPermissions = currentPermissions.includes(permission)
@@ -107,13 +231,80 @@ export function ModelDefinitionForm({ onSubmit, initialData }: ModelDefinitionFo
     })
   }
 
+  // Permission -> nearest ancestor role that grants it, mirroring the server
+  const getInheritedPermissions = (role: string) => {
+    const inherited = new Map<string, string>()
+    const visited = new Set([role])
+    let parent = parents[role]
+
+    while (parent && !visited.has(parent)) {
+      visited.add(parent)
+      for (const permission of rbac[parent] || []) {
+        if (!inherited.has(permission)) {
+          inherited.set(permission, parent)
+        }
+      }
+      parent = parents[parent]
+    }
+
+    return inherited
+  }
+
+  // Field access defaults to allowed; only restrictions are stored
+  const toggleFieldPermission = (index: number, role: string, kind: 'read' | 'write') => {
+    const field = fields[index]
+    const rule = { ...(field.permissions?.[role] || {}) }
+
+    if (rule[kind] === false) {
+      delete rule[kind]
+    } else {
+      rule[kind] = false
+    }
+
+    const permissions = { ...(field.permissions || {}) }
+    if (Object.keys(rule).length > 0) {
+      permissions[role] = rule
+    } else {
+      delete permissions[role]
+    }
+
+    updateField(index, { permissions: Object.keys(permissions).length > 0 ? permissions : undefined })
+  }
+
+  const addPolicy = () => {
+    setPolicies([...policies, { roles: [], actions: ['read'], condition: '' }])
+  }
+
+  const removePolicy = (index: number) => {
+    setPolicies(policies.filter((_, i) => i !== index))
+  }
+
+  const updatePolicy = (index: number, policy: Partial<PolicyFormData>) => {
+    const updatedPolicies = [...policies]
+    updatedPolicies[index] = { ...updatedPolicies[index], ...policy }
+    setPolicies(updatedPolicies)
+  }
+
+  const togglePolicyValue = <K extends 'roles' | 'actions'>(
+    index: number,
+    key: K,
+    value: PolicyFormData[K][number]
+  ) => {
+    const current = policies[index][key] as string[]
+    updatePolicy(index, {
+      [key]: current.includes(value) ? current.filter(item => item !== value) : [...current, value],
+    })
+  }
+
   const handleSubmit = async (data: ModelFormData) => {
+    setIssues([])
     setIsSubmitting(true)
     try {
       const formData = {
         ...data,
         fields,
         rbac,
+        policies,
       }
       await onSubmit(formData)
     } catch (error) {
@@ -123,6 +314,19 @@ export function ModelDefinitionForm({ onSubmit, initialData }: ModelDefinitionFo
     }
   }
 
+  // Most of the definition lives outside form fields, so list every problem
+  // with its path instead of relying on per-field messages
+  const handleInvalid = () => {
+    try {
+      parseModelDefinition(form.getValues())
+      setIssues([])
+    } catch (error) {
+      if (error instanceof ModelValidationError) {
+        setIssues(error.issues)
+      }
+    }
+  }
+
   return (
     <Card className="w-full max-w-4xl mx-auto">
       <CardHeader>
@@ -133,12 +337,13 @@ export function ModelDefinitionForm({ onSubmit, initialData }: ModelDefinitionFo
       </CardHeader>
       <CardContent>
         <Form {...form}>
-          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+          <form onSubmit={form.handleSubmit(handleSubmit, handleInvalid)} className="space-y-6">
             <Tabs defaultValue="basic" className="w-full">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="basic">Basic Info</TabsTrigger>
                 <TabsTrigger value="fields">Fields</TabsTrigger>
                 <TabsTrigger value="rbac">RBAC</TabsTrigger>
+                <TabsTrigger value="policies">Policies</TabsTrigger>
               </TabsList>
 
               <TabsContent value="basic" className="space-y-4">
@@ -192,6 +397,32 @@ export function ModelDefinitionForm({ onSubmit, initialData }: ModelDefinitionFo
                     </FormItem>
                   )}
                 />
+
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Switch checked={softDelete} onCheckedChange={setSoftDelete} />
+                    <label className="text-sm font-medium">Soft Delete</label>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Deleted records move to a trash where roles with the purge permission can restore or purge them
+                  </p>
+                </div>
+
+                {softDelete && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Trash Retention in Days (Optional)</label>
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="e.g., 30"
+                      value={retentionDays ?? ''}
+                      onChange={(e) => setRetentionDays(e.target.value === '' ? undefined : Number(e.target.value))}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Records in the trash are purged after this many days; leave empty to keep them
+                    </p>
+                  </div>
+                )}
               </TabsContent>
 
               <TabsContent value="fields" className="space-y-4">
@@ -219,7 +450,7 @@ export function ModelDefinitionForm({ onSubmit, initialData }: ModelDefinitionFo
                         <label className="text-sm font-medium">Type</label>
                         <Select
                           value={field.type}
-                          onValueChange={(value) => updateField(index, { type: value as typeof fieldTypes[number] })}
+                          onValueChange={(value) => changeFieldType(index, value as typeof fieldTypes[number])}
                         >
                           <SelectTrigger>
                             <SelectValue />
@@ -227,21 +458,42 @@ export function ModelDefinitionForm({ onSubmit, initialData }: ModelDefinitionFo
                           <SelectContent>
                             {fieldTypes.map((type) => (
                               <SelectItem key={type} value={type}>
-                                {type}
+                                {FIELD_TYPE_LABELS[type]}
                               </SelectItem>
                             ))}
                           </SelectContent>
                         </Select>
                       </div>
 
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">Default Value</label>
-                        <Input
-                          value={field.default || ''}
-                          onChange={(e) => updateField(index, { default: e.target.value })}
-                          placeholder="e.g., true, 0, 'default'"
-                        />
-                      </div>
+                      {field.type === 'relation' ? (
+                        <div className="space-y-2">
+                          <label className="text-sm font-medium">Related Model</label>
+                          <Select
+                            value={field.relation || ''}
+                            onValueChange={(value) => updateField(index, { relation: value })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a model" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {relationTargets.map((name) => (
+                                <SelectItem key={name} value={name}>
+                                  {name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ) : (
+                        <div className="space-y-2">
+                          <label className="text-sm font-medium">Default Value</label>
+                          <Input
+                            value={field.default || ''}
+                            onChange={(e) => updateField(index, { default: e.target.value })}
+                            placeholder={DEFAULT_EXAMPLES[field.type] || "e.g., true, 0, 'default'"}
+                          />
+                        </div>
+                      )}
 
                       <div className="space-y-2">
                         <label className="text-sm font-medium">Actions</label>
@@ -272,6 +524,196 @@ export function ModelDefinitionForm({ onSubmit, initialData }: ModelDefinitionFo
                           </Button>
                         </div>
                       </div>
+
+                      {field.type === 'enum' && (
+                        <div className="space-y-2 md:col-span-2">
+                          <label className="text-sm font-medium">Options</label>
+                          <Textarea
+                            value={(field.options || []).join('\n')}
+                            onChange={(e) => updateField(index, { options: e.target.value.split('\n') })}
+                            placeholder={'One option per line, e.g.\ndraft\nactive'}
+                            rows={3}
+                          />
+                        </div>
+                      )}
+
+                      {field.type === 'decimal' && (
+                        <>
+                          <div className="space-y-2">
+                            <label className="text-sm font-medium">Precision</label>
+                            <Input
+                              type="number"
+                              min={1}
+                              max={MAX_DECIMAL_PRECISION}
+                              value={field.precision ?? ''}
+                              onChange={(e) => updateField(index, { precision: parseDigits(e.target.value) })}
+                              placeholder={`Total digits, up to ${MAX_DECIMAL_PRECISION}`}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <label className="text-sm font-medium">Scale</label>
+                            <Input
+                              type="number"
+                              min={0}
+                              value={field.scale ?? ''}
+                              onChange={(e) => updateField(index, { scale: parseDigits(e.target.value) })}
+                              placeholder={`Digits after the point, ${DEFAULT_DECIMAL_SCALE} by default`}
+                            />
+                          </div>
+                        </>
+                      )}
+
+                      {(isNumericType(field.type) || isTextType(field.type)) && (
+                        <div className="md:col-span-2 lg:col-span-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 border-t pt-4">
+                          {isNumericType(field.type) ? (
+                            <>
+                              <div className="space-y-2">
+                                <label className="text-sm font-medium">Minimum</label>
+                                <Input
+                                  type="number"
+                                  value={field.validation?.min ?? ''}
+                                  onChange={(e) => updateValidation(index, { min: parseDigits(e.target.value) })}
+                                />
+                              </div>
+                              <div className="space-y-2">
+                                <label className="text-sm font-medium">Maximum</label>
+                                <Input
+                                  type="number"
+                                  value={field.validation?.max ?? ''}
+                                  onChange={(e) => updateValidation(index, { max: parseDigits(e.target.value) })}
+                                />
+                              </div>
+                            </>
+                          ) : (
+                            <>
+                              <div className="space-y-2">
+                                <label className="text-sm font-medium">Length</label>
+                                <div className="flex gap-2">
+                                  <Input
+                                    type="number"
+                                    min={0}
+                                    value={field.validation?.minLength ?? ''}
+                                    onChange={(e) => updateValidation(index, { minLength: parseDigits(e.target.value) })}
+                                    placeholder="Min"
+                                  />
+                                  <Input
+                                    type="number"
+                                    min={0}
+                                    value={field.validation?.maxLength ?? ''}
+                                    onChange={(e) => updateValidation(index, { maxLength: parseDigits(e.target.value) })}
+                                    placeholder="Max"
+                                  />
+                                </div>
+                              </div>
+                              <div className="space-y-2">
+                                <label className="text-sm font-medium">Pattern</label>
+                                <Input
+                                  className="font-mono"
+                                  value={field.validation?.pattern || ''}
+                                  onChange={(e) => updateValidation(index, { pattern: e.target.value })}
+                                  placeholder="e.g., [A-Z]{3}-\d+"
+                                />
+                              </div>
+                            </>
+                          )}
+                          <div className="space-y-2">
+                            <label className="text-sm font-medium">Allowed Values</label>
+                            <Textarea
+                              value={(field.validation?.allowedValues || []).join('\n')}
+                              onChange={(e) => updateValidation(index, { allowedValues: parseAllowedValues(e.target.value, isNumericType(field.type)) })}
+                              placeholder="Any value; or one per line"
+                              rows={2}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <label className="text-sm font-medium">Error Message</label>
+                            <Input
+                              value={field.validation?.message || ''}
+                              onChange={(e) => updateValidation(index, { message: e.target.value })}
+                              placeholder="Shown when a value is rejected"
+                            />
+                          </div>
+                        </div>
+                      )}
+
+                      {field.type === 'relation' && (
+                        <div className="space-y-2 md:col-span-2">
+                          <label className="text-sm font-medium">When the related record is deleted</label>
+                          <Select
+                            value={field.onDelete || 'restrict'}
+                            onValueChange={(value) => updateField(index, { onDelete: value as typeof onDeleteActions[number] })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {onDeleteActions.map((action) => (
+                                <SelectItem key={action} value={action}>
+                                  {ON_DELETE_LABELS[action]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                    </div>
+                  </Card>
+                ))}
+
+                <div className="flex justify-between items-center pt-4">
+                  <div>
+                    <h3 className="text-lg font-semibold">Many-to-Many Links</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Link records to any number of records of another model, e.g. students to courses
+                    </p>
+                  </div>
+                  <Button type="button" onClick={addLink} variant="outline" size="sm">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Link
+                  </Button>
+                </div>
+
+                {links.map((link, index) => (
+                  <Card key={index} className="p-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Link Name</label>
+                        <Input
+                          value={link.name}
+                          onChange={(e) => updateLink(index, { name: e.target.value })}
+                          placeholder="e.g., courses"
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Linked Model</label>
+                        <Select
+                          value={link.model}
+                          onValueChange={(value) => updateLink(index, { model: value })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a model" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {relationTargets.map((name) => (
+                              <SelectItem key={name} value={name}>
+                                {name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div>
+                        <Button
+                          type="button"
+                          onClick={() => removeLink(index)}
+                          variant="destructive"
+                          size="sm"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
                     </div>
                   </Card>
                 ))}
@@ -281,37 +723,196 @@ export function ModelDefinitionForm({ onSubmit, initialData }: ModelDefinitionFo
                 <h3 className="text-lg font-semibold">Role-Based Access Control</h3>
                 
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  {roles.map((role) => (
-                    <Card key={role} className="p-4">
-                      <h4 className="font-semibold mb-3">{role}</h4>
-                      <div className="space-y-2">
-                        {permissions.map((permission) => (
-                          <div key={permission} className="flex items-center space-x-2">
-                            <Switch
-                              checked={rbac[role]?.includes(permission) || false}
-                              onCheckedChange={() => togglePermission(role, permission)}
-                            />
-                            <label className="text-sm capitalize">{permission}</label>
+                  {roles.map((role) => {
+                    const inherited = getInheritedPermissions(role)
+                    return (
+                      <Card key={role} className="p-4">
+                        <h4 className="font-semibold">{role}</h4>
+                        <p className="text-xs text-muted-foreground mb-3">
+                          {parents[role] ? `Inherits from ${parents[role]}` : 'No parent role'}
+                        </p>
+                        <div className="space-y-2">
+                          {rbacActions.map((permission) => (
+                            <div key={permission} className="flex items-center space-x-2">
+                              <Switch
+                                checked={rbac[role]?.includes(permission) || false}
+                                onCheckedChange={() => togglePermission(role, permission)}
+                              />
+                              <label className="text-sm capitalize">{permission}</label>
+                              {inherited.has(permission) && !rbac[role]?.includes(permission) && (
+                                <Badge variant="outline" className="text-xs">
+                                  via {inherited.get(permission)}
+                                </Badge>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+
+                        <div className="mt-3">
+                          <p className="text-xs text-muted-foreground">Granted:</p>
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {rbac[role]?.map((perm) => (
+                              <Badge key={perm} variant="secondary" className="text-xs">
+                                {perm}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+
+                        {inherited.size > 0 && (
+                          <div className="mt-2">
+                            <p className="text-xs text-muted-foreground">Inherited:</p>
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {Array.from(inherited.keys()).map((perm) => (
+                                <Badge key={perm} variant="outline" className="text-xs">
+                                  {perm}
+                                </Badge>
+                              ))}
+                            </div>
                           </div>
+                        )}
+                      </Card>
+                    )
+                  })}
+                </div>
+
+                <div>
+                  <h3 className="text-lg font-semibold">Field Permissions</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Every role can read and write every field unless switched off here
+                  </p>
+                </div>
+
+                <Card className="p-4 overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left">
+                        <th className="py-2 pr-4 font-medium">Field</th>
+                        {roles.map((role) => (
+                          <th key={role} className="py-2 pr-4 font-medium">{role}</th>
                         ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {fields.map((field, index) => (
+                        <tr key={index} className="border-t">
+                          <td className="py-2 pr-4 font-medium">{field.name || `Field ${index + 1}`}</td>
+                          {roles.map((role) => (
+                            <td key={role} className="py-2 pr-4">
+                              <div className="flex items-center gap-4">
+                                {(['read', 'write'] as const).map((kind) => (
+                                  <div key={kind} className="flex items-center space-x-2">
+                                    <Switch
+                                      checked={field.permissions?.[role]?.[kind] !== false}
+                                      onCheckedChange={() => toggleFieldPermission(index, role, kind)}
+                                    />
+                                    <label className="text-xs capitalize">{kind}</label>
+                                  </div>
+                                ))}
+                              </div>
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="policies" className="space-y-4">
+                <div className="flex justify-between items-center">
+                  <div>
+                    <h3 className="text-lg font-semibold">Row-Level Policies</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Limit the records a role sees or changes, e.g. <code>department == user.department</code> or{' '}
+                      <code>status != &apos;archived&apos;</code>. Combine comparisons with &amp;&amp;, || and parentheses.
+                    </p>
+                  </div>
+                  <Button type="button" onClick={addPolicy} variant="outline" size="sm">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Policy
+                  </Button>
+                </div>
+
+                {policies.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    No policies. Roles can access every record their RBAC permissions allow.
+                  </p>
+                )}
+
+                {policies.map((policy, index) => (
+                  <Card key={index} className="p-4 space-y-4">
+                    <div className="flex items-end gap-2">
+                      <div className="flex-1 space-y-2">
+                        <label className="text-sm font-medium">Condition</label>
+                        <Input
+                          value={policy.condition}
+                          onChange={(e) => updatePolicy(index, { condition: e.target.value })}
+                          placeholder="e.g., department == user.department"
+                          className="font-mono"
+                        />
                       </div>
-                      
-                      <div className="mt-3">
-                        <p className="text-xs text-muted-foreground">Permissions:</p>
-                        <div className="flex flex-wrap gap-1 mt-1">
-                          {rbac[role]?.map((perm) => (
-                            <Badge key={perm} variant="secondary" className="text-xs">
-                              {perm}
-                            </Badge>
+                      <Button
+                        type="button"
+                        onClick={() => removePolicy(index)}
+                        variant="destructive"
+                        size="sm"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Roles</label>
+                        <div className="flex flex-wrap gap-4">
+                          {roles.map((role) => (
+                            <div key={role} className="flex items-center space-x-2">
+                              <Switch
+                                checked={policy.roles.includes(role)}
+                                onCheckedChange={() => togglePolicyValue(index, 'roles', role)}
+                              />
+                              <label className="text-sm">{role}</label>
+                            </div>
                           ))}
                         </div>
                       </div>
-                    </Card>
-                  ))}
-                </div>
+
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Actions</label>
+                        <div className="flex flex-wrap gap-4">
+                          {policyActions.map((action) => (
+                            <div key={action} className="flex items-center space-x-2">
+                              <Switch
+                                checked={policy.actions.includes(action)}
+                                onCheckedChange={() => togglePolicyValue(index, 'actions', action)}
+                              />
+                              <label className="text-sm capitalize">{action}</label>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+                  </Card>
+                ))}
               </TabsContent>
             </Tabs>
 
+            {issues.length > 0 && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  <ul className="space-y-1">
+                    {issues.map((issue, index) => (
+                      <li key={index}>
+                        {issue.path && <span className="font-mono">{issue.path}: </span>}
+                        {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
             <div className="flex justify-end">
               <Button type="submit" className="w-full md:w-auto" disabled={isSubmitting}>
                 {isSubmitting ? (
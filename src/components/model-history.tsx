@@ -0,0 +1,261 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { History, RotateCcw } from 'lucide-react'
+
+interface ModelVersionInfo {
+  version: number
+  action: string
+  definition: Record<string, unknown>
+  rolledBackFrom: number | null
+  actorId: string | null
+  actorEmail: string | null
+  createdAt: string
+}
+
+interface SchemaChange {
+  safe: boolean
+  description: string
+}
+
+interface VersionDiff {
+  changes: Record<string, { before: unknown; after: unknown }>
+  plan: { changes: SchemaChange[] }
+}
+
+interface ModelHistoryProps {
+  modelId: string
+  modelName: string
+  onRolledBack: () => void
+}
+
+export function ModelHistory({ modelId, modelName, onRolledBack }: ModelHistoryProps) {
+  const [open, setOpen] = useState(false)
+  const [versions, setVersions] = useState<ModelVersionInfo[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [from, setFrom] = useState<string>('')
+  const [to, setTo] = useState<string>('')
+  const [diff, setDiff] = useState<VersionDiff | null>(null)
+
+  const fetchVersions = async () => {
+    try {
+      const response = await fetch(`/api/models/${modelId}/versions`)
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to fetch versions')
+      }
+      const data: ModelVersionInfo[] = await response.json()
+      setVersions(data)
+      setDiff(null)
+      setError(null)
+
+      // Compare the two newest versions by default
+      setTo(data[0] ? String(data[0].version) : '')
+      setFrom(data[1] ? String(data[1].version) : data[0] ? String(data[0].version) : '')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next)
+    if (next) {
+      fetchVersions()
+    }
+  }
+
+  const handleCompare = async () => {
+    try {
+      const response = await fetch(`/api/models/${modelId}/versions/diff?from=${from}&to=${to}`)
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to diff versions')
+      }
+      setDiff(await response.json())
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  const handleRollback = async (version: number, confirmDestructive = false) => {
+    if (!confirmDestructive && !confirm(`Roll ${modelName} back to version ${version}? Unpublished edits to the model are replaced.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/models/${modelId}/versions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ version, confirm: confirmDestructive }),
+      })
+
+      // Destructive migrations need an explicit confirmation, as for publishing
+      if (response.status === 409) {
+        const { plan } = await response.json()
+        const summary = plan.changes
+          .map((change: SchemaChange) => `${change.safe ? '•' : '⚠'} ${change.description}`)
+          .join('\n')
+        if (confirm(`Rolling back will apply these changes:\n\n${summary}\n\nContinue?`)) {
+          await handleRollback(version, true)
+        }
+        return
+      }
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to roll back model')
+      }
+
+      await fetchVersions()
+      onRolledBack()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Schema history">
+          <History className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Schema History</DialogTitle>
+          <DialogDescription>
+            Every published version of {modelName}, newest first
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {versions.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No versions published yet</p>
+        ) : (
+          <div className="space-y-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Published</TableHead>
+                  <TableHead>Roll back</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {versions.map((version, index) => (
+                  <TableRow key={version.version}>
+                    <TableCell className="font-medium">v{version.version}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {version.rolledBackFrom ? `rollback to v${version.rolledBackFrom}` : version.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{version.actorEmail || '-'}</TableCell>
+                    <TableCell>{new Date(version.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      {index > 0 && (
+                        <Button variant="ghost" size="sm" onClick={() => handleRollback(version.version)}>
+                          <RotateCcw className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">Compare</span>
+                {renderVersionSelect(from, setFrom, versions)}
+                <span className="text-sm">with</span>
+                {renderVersionSelect(to, setTo, versions)}
+                <Button variant="outline" size="sm" onClick={handleCompare} disabled={!from || !to}>
+                  Diff
+                </Button>
+              </div>
+
+              {diff && (
+                diff.plan.changes.length === 0 && Object.keys(diff.changes).length === 0 ? (
+                  <p className="text-sm text-muted-foreground">The versions are identical</p>
+                ) : (
+                  <div className="space-y-4">
+                    {diff.plan.changes.length > 0 && (
+                      <ul className="space-y-1 text-sm">
+                        {diff.plan.changes.map((change, index) => (
+                          <li key={index} className={change.safe ? '' : 'text-destructive'}>
+                            {change.safe ? '•' : '⚠'} {change.description}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Property</TableHead>
+                          <TableHead>v{from}</TableHead>
+                          <TableHead>v{to}</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {Object.entries(diff.changes).map(([property, change]) => (
+                          <TableRow key={property}>
+                            <TableCell className="font-medium">{property}</TableCell>
+                            <TableCell className="text-muted-foreground font-mono text-xs break-all">
+                              {formatValue(change.before)}
+                            </TableCell>
+                            <TableCell className="font-mono text-xs break-all">{formatValue(change.after)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function renderVersionSelect(value: string, onChange: (value: string) => void, versions: ModelVersionInfo[]) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-24">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.version} value={String(version.version)}>
+            v{version.version}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '-'
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
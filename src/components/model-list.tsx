@@ -1,25 +1,53 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Plus, Eye, Edit, Trash2, Database, Users, Settings } from 'lucide-react'
+import { ModelHistory } from '@/components/model-history'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
+import { Plus, Eye, Edit, Trash2, Database, Users, Settings, History, MoreHorizontal } from 'lucide-react'
+import { ModelStatus, modelTransitions } from '@/lib/model-statuses'
 
 interface ModelDefinition {
   id: string
   name: string
   tableName?: string
   definition: string
-  isPublished: boolean
+  status: ModelStatus
   createdBy: string
   createdAt: string
   updatedAt: string
 }
 
+const STATUS_BADGES: Record<ModelStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  draft: 'secondary',
+  published: 'default',
+  deprecated: 'outline',
+  archived: 'destructive',
+}
+
+// Menu labels of the lifecycle moves; drafts go live through the publish button
+const STATUS_ACTION_LABELS: Record<ModelStatus, string> = {
+  draft: 'Unpublish',
+  published: 'Restore',
+  deprecated: 'Deprecate',
+  archived: 'Archive',
+}
+
+function getStatusActionLabel(from: ModelStatus, to: ModelStatus): string {
+  return from === 'deprecated' && to === 'published' ? 'Undeprecate' : STATUS_ACTION_LABELS[to]
+}
+
+const STATUS_CONFIRMATIONS: Partial<Record<ModelStatus, string>> = {
+  archived: 'Archive this model? Its API will answer 410 Gone; its records are kept.',
+  draft: 'Unpublish this model? Its API is taken offline until it is published again; its records are kept.',
+}
+
 interface ModelListProps {
   onCreateModel: () => void
   onEditModel: (model: ModelDefinition) => void
@@ -27,6 +55,7 @@ interface ModelListProps {
   onDeleteModel: (modelId: string) => void
   onPublishModel: (modelId: string) => void
   onManageData: (model: ModelDefinition) => void
+  onViewAudit: () => void
 }
 
 export function ModelList({
@@ -36,11 +65,16 @@ export function ModelList({
   onDeleteModel,
   onPublishModel,
   onManageData,
+  onViewAudit,
 }: ModelListProps) {
+  const { data: session } = useSession()
   const [models, setModels] = useState<ModelDefinition[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
+  // The API enforces these too; hiding the buttons just avoids dead ends
+  const can = (permission: string) => !!session?.user?.permissions?.includes(permission)
+
   useEffect(() => {
     fetchModels()
   }, [])
@@ -70,7 +104,8 @@ export function ModelList({
         method: 'DELETE',
       })
       if (!response.ok) {
-        throw new Error('Failed to delete model')
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to delete model')
       }
       await fetchModels()
     } catch (err) {
@@ -78,13 +113,56 @@ export function ModelList({
     }
   }
 
-  const handlePublish = async (modelId: string) => {
+  const handlePublish = async (modelId: string, confirmDestructive = false) => {
     try {
       const response = await fetch(`/api/models/${modelId}/publish`, {
         method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ confirm: confirmDestructive }),
+      })
+
+      // Destructive migrations need an explicit confirmation
+      if (response.status === 409) {
+        const { plan } = await response.json()
+        const summary = plan.changes
+          .map((change: any) => `${change.safe ? '•' : '⚠'} ${change.description}`)
+          .join('\n')
+        if (confirm(`Publishing will apply these changes:\n\n${summary}\n\nContinue?`)) {
+          await handlePublish(modelId, true)
+        }
+        return
+      }
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to publish model')
+      }
+      await fetchModels()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  const handleStatusChange = async (model: ModelDefinition, status: ModelStatus) => {
+    const confirmation = STATUS_CONFIRMATIONS[status]
+    if (confirmation && !confirm(confirmation)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/models/${model.id}/status`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status }),
       })
+
       if (!response.ok) {
-        throw new Error('Failed to publish model')
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to change model status')
       }
       await fetchModels()
     } catch (err) {
@@ -128,10 +206,20 @@ export function ModelList({
           <h2 className="text-2xl font-bold">Model Definitions</h2>
           <p className="text-muted-foreground">Manage your data models and their CRUD APIs</p>
         </div>
-        <Button onClick={onCreateModel}>
-          <Plus className="w-4 h-4 mr-2" />
-          Create Model
-        </Button>
+        <div className="flex items-center gap-2">
+          {can('audit:read') && (
+            <Button variant="outline" onClick={onViewAudit}>
+              <History className="w-4 h-4 mr-2" />
+              Audit Log
+            </Button>
+          )}
+          {can('model:create') && (
+            <Button onClick={onCreateModel}>
+              <Plus className="w-4 h-4 mr-2" />
+              Create Model
+            </Button>
+          )}
+        </div>
       </div>
 
       {models.length === 0 ? (
@@ -142,10 +230,12 @@ export function ModelList({
               <h3 className="text-lg font-semibold">No models defined yet</h3>
               <p className="text-muted-foreground">Create your first data model to get started</p>
             </div>
-            <Button onClick={onCreateModel}>
-              <Plus className="w-4 h-4 mr-2" />
-              Create Model
-            </Button>
+            {can('model:create') && (
+              <Button onClick={onCreateModel}>
+                <Plus className="w-4 h-4 mr-2" />
+                Create Model
+              </Button>
+            )}
           </CardContent>
         </Card>
       ) : (
@@ -181,8 +271,8 @@ export function ModelList({
                         <Badge variant="outline">{fieldCount} fields</Badge>
                       </TableCell>
                       <TableCell>
-                        <Badge variant={model.isPublished ? "default" : "secondary"}>
-                          {model.isPublished ? "Published" : "Draft"}
+                        <Badge variant={STATUS_BADGES[model.status]} className="capitalize">
+                          {model.status}
                         </Badge>
                       </TableCell>
                       <TableCell>
@@ -218,7 +308,7 @@ export function ModelList({
                                       <span className="font-medium">Table:</span> {model.tableName || model.name.toLowerCase() + 's'}
                                     </div>
                                     <div>
-                                      <span className="font-medium">Status:</span> {model.isPublished ? "Published" : "Draft"}
+                                      <span className="font-medium">Status:</span> <span className="capitalize">{model.status}</span>
                                     </div>
                                     <div>
                                       <span className="font-medium">Created:</span> {new Date(model.createdAt).toLocaleDateString()}
@@ -268,13 +358,15 @@ export function ModelList({
                             </DialogContent>
                           </Dialog>
 
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => onEditModel(model)}
-                          >
-                            <Edit className="w-4 h-4" />
-                          </Button>
+                          {can('model:edit') && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => onEditModel(model)}
+                            >
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                          )}
 
                           <Button
                             variant="ghost"
@@ -284,24 +376,51 @@ export function ModelList({
                             <Users className="w-4 h-4" />
                           </Button>
 
-                          {!model.isPublished && (
+                          {can('model:publish') && (
                             <Button
                               variant="ghost"
                               size="sm"
                               onClick={() => handlePublish(model.id)}
+                              title={model.status === 'draft' ? 'Publish' : 'Republish'}
                             >
                               <Settings className="w-4 h-4" />
                             </Button>
                           )}
 
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleDelete(model.id)}
-                            className="text-destructive hover:text-destructive"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
+                          {can('model:publish') && model.status !== 'draft' && (
+                            <ModelHistory modelId={model.id} modelName={model.name} onRolledBack={fetchModels} />
+                          )}
+
+                          {can('model:publish') && model.status !== 'draft' && (
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="sm" title="Lifecycle">
+                                  <MoreHorizontal className="w-4 h-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                {modelTransitions[model.status].map((status) => (
+                                  <DropdownMenuItem
+                                    key={status}
+                                    onClick={() => handleStatusChange(model, status)}
+                                  >
+                                    {getStatusActionLabel(model.status, status)}
+                                  </DropdownMenuItem>
+                                ))}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          )}
+
+                          {can('model:delete') && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(model.id)}
+                              className="text-destructive hover:text-destructive"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -0,0 +1,227 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { History, RotateCcw } from 'lucide-react'
+
+interface RecordVersionInfo {
+  version: number
+  action: string
+  data: Record<string, unknown>
+  restoredFrom: number | null
+  actorId: string | null
+  actorEmail: string | null
+  createdAt: string
+}
+
+type Changes = Record<string, { before: unknown; after: unknown }>
+
+interface RecordHistoryProps {
+  modelName: string
+  recordId: string
+  onRestored: () => void
+}
+
+export function RecordHistory({ modelName, recordId, onRestored }: RecordHistoryProps) {
+  const [open, setOpen] = useState(false)
+  const [versions, setVersions] = useState<RecordVersionInfo[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [from, setFrom] = useState<string>('')
+  const [to, setTo] = useState<string>('')
+  const [changes, setChanges] = useState<Changes | null>(null)
+
+  const fetchVersions = async () => {
+    try {
+      const response = await fetch(`/api/crud/${modelName}/versions?id=${recordId}`)
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to fetch versions')
+      }
+      const data: RecordVersionInfo[] = await response.json()
+      setVersions(data)
+      setChanges(null)
+      setError(null)
+
+      // Compare the two newest versions by default
+      setTo(data[0] ? String(data[0].version) : '')
+      setFrom(data[1] ? String(data[1].version) : data[0] ? String(data[0].version) : '')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next)
+    if (next) {
+      fetchVersions()
+    }
+  }
+
+  const handleCompare = async () => {
+    try {
+      const response = await fetch(`/api/crud/${modelName}/versions/diff?id=${recordId}&from=${from}&to=${to}`)
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to diff versions')
+      }
+      setChanges((await response.json()).changes)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  const handleRestore = async (version: number) => {
+    if (!confirm(`Restore version ${version}? The current values are kept in the history.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/crud/${modelName}/versions?id=${recordId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ version }),
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to restore version')
+      }
+
+      await fetchVersions()
+      onRestored()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="History">
+          <History className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Record History</DialogTitle>
+          <DialogDescription>
+            Every saved version of <span className="font-mono">{recordId}</span>, newest first
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {versions.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No versions recorded yet</p>
+        ) : (
+          <div className="space-y-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Saved</TableHead>
+                  <TableHead>Restore</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {versions.map((version, index) => (
+                  <TableRow key={version.version}>
+                    <TableCell className="font-medium">v{version.version}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {version.restoredFrom ? `restore of v${version.restoredFrom}` : version.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{version.actorEmail || '-'}</TableCell>
+                    <TableCell>{new Date(version.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      {index > 0 && (
+                        <Button variant="ghost" size="sm" onClick={() => handleRestore(version.version)}>
+                          <RotateCcw className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">Compare</span>
+                {renderVersionSelect(from, setFrom, versions)}
+                <span className="text-sm">with</span>
+                {renderVersionSelect(to, setTo, versions)}
+                <Button variant="outline" size="sm" onClick={handleCompare} disabled={!from || !to}>
+                  Diff
+                </Button>
+              </div>
+
+              {changes && (
+                Object.keys(changes).length === 0 ? (
+                  <p className="text-sm text-muted-foreground">The versions are identical</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Field</TableHead>
+                        <TableHead>v{from}</TableHead>
+                        <TableHead>v{to}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {Object.entries(changes).map(([field, change]) => (
+                        <TableRow key={field}>
+                          <TableCell className="font-medium">{field}</TableCell>
+                          <TableCell className="text-muted-foreground">{formatValue(change.before)}</TableCell>
+                          <TableCell>{formatValue(change.after)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function renderVersionSelect(value: string, onChange: (value: string) => void, versions: RecordVersionInfo[]) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-24">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.version} value={String(version.version)}>
+            v{version.version}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '-'
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
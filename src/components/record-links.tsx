@@ -0,0 +1,142 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { RecordPicker, useLabelField } from '@/components/record-picker'
+import { Link2, Unlink } from 'lucide-react'
+
+interface RecordData {
+  id: string
+  [key: string]: any
+}
+
+interface ModelLink {
+  name: string
+  model: string
+}
+
+interface RecordLinksProps {
+  modelName: string
+  recordId: string
+  links: ModelLink[]
+}
+
+const PAGE_SIZE = 50
+
+export function RecordLinks({ modelName, recordId, links }: RecordLinksProps) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Links">
+          <Link2 className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Record Links</DialogTitle>
+          <DialogDescription>
+            Records linked to <span className="font-mono">{recordId}</span>
+          </DialogDescription>
+        </DialogHeader>
+
+        {open && links.map((link) => (
+          <LinkSection key={link.name} modelName={modelName} recordId={recordId} link={link} />
+        ))}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function LinkSection({ modelName, recordId, link }: { modelName: string; recordId: string; link: ModelLink }) {
+  const [records, setRecords] = useState<RecordData[]>([])
+  const [total, setTotal] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const labelField = useLabelField(link.model)
+
+  useEffect(() => {
+    fetchLinks()
+  }, [modelName, recordId, link.name])
+
+  const linkUrl = (target?: string) =>
+    `/api/crud/${modelName}/links?id=${encodeURIComponent(recordId)}&link=${link.name}${target ? `&target=${encodeURIComponent(target)}` : ''}`
+
+  const fetchLinks = async () => {
+    try {
+      const response = await fetch(`${linkUrl()}&limit=${PAGE_SIZE}`)
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to fetch links')
+      }
+      const page = await response.json()
+      setRecords(page.data)
+      setTotal(page.total)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  const handleChange = async (target: string, method: 'POST' | 'DELETE') => {
+    try {
+      const response = await fetch(linkUrl(target), { method })
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || `Failed to ${method === 'POST' ? 'link' : 'unlink'} record`)
+      }
+      await fetchLinks()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-semibold capitalize">
+        {link.name} <span className="text-sm font-normal text-muted-foreground">({total} {link.model})</span>
+      </h4>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <RecordPicker
+        modelName={link.model}
+        value=""
+        onChange={(target) => target && handleChange(target, 'POST')}
+      />
+
+      {records.length > 0 && (
+        <Table>
+          <TableBody>
+            {records.map((record) => (
+              <TableRow key={record.id}>
+                <TableCell>{labelField && record[labelField] ? String(record[labelField]) : '-'}</TableCell>
+                <TableCell className="font-mono text-sm">{record.id}</TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Unlink"
+                    onClick={() => handleChange(record.id, 'DELETE')}
+                  >
+                    <Unlink className="w-4 h-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+      {total > PAGE_SIZE && (
+        <p className="text-sm text-muted-foreground">Showing {PAGE_SIZE} of {total}</p>
+      )}
+    </div>
+  )
+}
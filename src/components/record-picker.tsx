@@ -0,0 +1,182 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { Button } from '@/components/ui/button'
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Check, ChevronsUpDown, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface RecordData {
+  id: string
+  [key: string]: any
+}
+
+interface RecordPickerProps {
+  // The related model, as named in the relation field
+  modelName: string
+  value: string
+  onChange: (value: string) => void
+  disabled?: boolean
+}
+
+const RESULT_LIMIT = 20
+const SEARCH_DELAY_MS = 250
+
+/**
+ * The first string field of a model the signed-in role can read, used to
+ * label and search its records; null when there is none
+ */
+export function useLabelField(modelName: string): string | null {
+  const [labelField, setLabelField] = useState<string | null>(null)
+  const { data: session } = useSession()
+  const role = session?.user?.role
+
+  useEffect(() => {
+    const fetchLabelField = async () => {
+      try {
+        const response = await fetch('/api/models')
+        if (response.ok) {
+          const models: Array<{ name: string; definition: string }> = await response.json()
+          const related = models.find(model => model.name === modelName)
+          const fields: any[] = related ? JSON.parse(related.definition).fields : []
+          const field = fields.find(candidate =>
+            candidate.type === 'string' && (!role || candidate.permissions?.[role]?.read !== false)
+          )
+          setLabelField(field?.name ?? null)
+        }
+      } catch (err) {
+        console.error('Error fetching related model:', err)
+      }
+    }
+
+    fetchLabelField()
+  }, [modelName, role])
+
+  return labelField
+}
+
+/**
+ * Searchable select over the records of a related model, labelled and
+ * searched by its label field
+ */
+export function RecordPicker({ modelName, value, onChange, disabled }: RecordPickerProps) {
+  const [open, setOpen] = useState(false)
+  const [search, setSearch] = useState('')
+  const labelField = useLabelField(modelName)
+  const [records, setRecords] = useState<RecordData[]>([])
+  const [selected, setSelected] = useState<RecordData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Show the label of the current value, e.g. when editing a record
+  useEffect(() => {
+    if (!value) {
+      setSelected(null)
+      return
+    }
+    if (selected?.id === value) {
+      return
+    }
+
+    fetch(`/api/crud/${modelName}?id=${encodeURIComponent(value)}`)
+      .then(response => response.ok ? response.json() : null)
+      .then(record => setSelected(record ?? { id: value }))
+      .catch(() => setSelected({ id: value }))
+  }, [modelName, value])
+
+  useEffect(() => {
+    if (!open) {
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ limit: String(RESULT_LIMIT) })
+        if (search && labelField) {
+          params.set(`${labelField}[contains]`, search)
+        }
+        const response = await fetch(`/api/crud/${modelName}?${params}`)
+        if (!response.ok) {
+          const data = await response.json().catch(() => null)
+          throw new Error(data?.error || `Failed to fetch ${modelName} records`)
+        }
+        const page = await response.json()
+        setRecords(page.data)
+        setError(null)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error')
+      }
+    }, SEARCH_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [open, search, labelField, modelName])
+
+  const getLabel = (record: RecordData) =>
+    labelField && record[labelField] ? String(record[labelField]) : record.id
+
+  const handleSelect = (record: RecordData) => {
+    setSelected(record)
+    onChange(record.id)
+    setOpen(false)
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="flex-1 justify-between font-normal"
+            disabled={disabled}
+          >
+            <span className="truncate">
+              {selected ? getLabel(selected) : `Select a ${modelName} record`}
+            </span>
+            <ChevronsUpDown className="w-4 h-4 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="p-0 w-[var(--radix-popover-trigger-width)]" align="start">
+          {/* Records are searched on the server, so cmdk must not filter them again */}
+          <Command shouldFilter={false}>
+            <CommandInput
+              placeholder={labelField ? `Search by ${labelField}...` : 'Search...'}
+              value={search}
+              onValueChange={setSearch}
+              disabled={!labelField}
+            />
+            <CommandList>
+              <CommandEmpty>{error || 'No records found.'}</CommandEmpty>
+              <CommandGroup>
+                {records.map((record) => (
+                  <CommandItem key={record.id} value={record.id} onSelect={() => handleSelect(record)}>
+                    <Check className={cn('w-4 h-4', record.id === value ? 'opacity-100' : 'opacity-0')} />
+                    <span className="truncate">{getLabel(record)}</span>
+                    {labelField && (
+                      <span className="ml-auto font-mono text-xs text-muted-foreground">
+                        {record.id.slice(0, 8)}
+                      </span>
+                    )}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {value && !disabled && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange('')}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { RotateCcw, Trash2 } from 'lucide-react'
+
+interface RecordData {
+  id: string
+  deletedAt: string
+  [key: string]: any
+}
+
+interface RecordTrashProps {
+  modelName: string
+  fields: Array<{ name: string; type: string }>
+  formatFieldValue: (value: any, type: string) => string
+  onRestored: () => void
+}
+
+const PAGE_SIZE = 50
+
+export function RecordTrash({ modelName, fields, formatFieldValue, onRestored }: RecordTrashProps) {
+  const [records, setRecords] = useState<RecordData[]>([])
+  const [total, setTotal] = useState(0)
+  const [offset, setOffset] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchTrash()
+  }, [modelName, offset])
+
+  const fetchTrash = async () => {
+    try {
+      const response = await fetch(`/api/crud/${modelName}/trash?sort=-deletedAt&limit=${PAGE_SIZE}&offset=${offset}`)
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to fetch trash')
+      }
+      const page = await response.json()
+      setRecords(page.data)
+      setTotal(page.total)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleAction = async (recordId: string, method: 'POST' | 'DELETE') => {
+    if (method === 'DELETE' && !confirm('Permanently purge this record? This cannot be undone.')) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/crud/${modelName}/trash?id=${recordId}`, { method })
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || (method === 'POST' ? 'Failed to restore record' : 'Failed to purge record'))
+      }
+
+      await fetchTrash()
+      if (method === 'POST') {
+        onRestored()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {records.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">The trash is empty</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>ID</TableHead>
+                {fields.map((field) => (
+                  <TableHead key={field.name} className="capitalize">{field.name}</TableHead>
+                ))}
+                <TableHead>Deleted</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {records.map((record) => (
+                <TableRow key={record.id}>
+                  <TableCell className="font-mono text-sm">{record.id}</TableCell>
+                  {fields.map((field) => (
+                    <TableCell key={field.name}>
+                      {formatFieldValue(record[field.name], field.type)}
+                    </TableCell>
+                  ))}
+                  <TableCell>{new Date(record.deletedAt).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button variant="ghost" size="sm" title="Restore" onClick={() => handleAction(record.id, 'POST')}>
+                        <RotateCcw className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Purge"
+                        onClick={() => handleAction(record.id, 'DELETE')}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-between pt-4">
+              <p className="text-sm text-muted-foreground">
+                Showing {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={offset === 0}
+                  onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={offset + PAGE_SIZE >= total}
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,319 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { ArrowLeft, Plus, Trash2 } from 'lucide-react'
+
+interface RoleInfo {
+  id: string
+  name: string
+  description: string | null
+  isAdmin: boolean
+  parent: string | null
+  permissions: string[]
+  userCount: number
+  models: string[]
+  createdAt: string
+}
+
+// Select items cannot have an empty value
+const NO_PARENT = '__none__'
+
+// Mirrors systemPermissions in lib/roles, which is server-only
+const SYSTEM_PERMISSIONS = ['model:create', 'model:edit', 'model:publish', 'model:delete', 'audit:read']
+
+interface RoleManagerProps {
+  onBack: () => void
+}
+
+export function RoleManager({ onBack }: RoleManagerProps) {
+  const { data: session } = useSession()
+  const [roles, setRoles] = useState<RoleInfo[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [isAdmin, setIsAdmin] = useState(false)
+  const [parent, setParent] = useState(NO_PARENT)
+  const [permissions, setPermissions] = useState<string[]>([])
+
+  const canManage = !!session?.user?.isAdmin
+
+  useEffect(() => {
+    fetchRoles()
+  }, [])
+
+  const fetchRoles = async () => {
+    try {
+      const response = await fetch('/api/roles')
+      if (!response.ok) {
+        throw new Error('Failed to fetch roles')
+      }
+      setRoles(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveRole = async (url: string, method: string, body?: Record<string, unknown>) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to save role')
+      }
+
+      setError(null)
+      await fetchRoles()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+      return false
+    }
+  }
+
+  const handleCreate = async () => {
+    const body = { name, description, isAdmin, parent: parent === NO_PARENT ? null : parent, permissions }
+    if (await saveRole('/api/roles', 'POST', body)) {
+      setName('')
+      setDescription('')
+      setIsAdmin(false)
+      setParent(NO_PARENT)
+      setPermissions([])
+    }
+  }
+
+  const handleTogglePermission = (role: RoleInfo, permission: string) => {
+    const next = role.permissions.includes(permission)
+      ? role.permissions.filter(p => p !== permission)
+      : [...role.permissions, permission]
+    saveRole(`/api/roles/${role.id}`, 'PUT', { permissions: next })
+  }
+
+  const handleDelete = async (role: RoleInfo) => {
+    if (!confirm(`Are you sure you want to delete the role '${role.name}'?`)) {
+      return
+    }
+    await saveRole(`/api/roles/${role.id}`, 'DELETE')
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center h-32">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="mt-2 text-sm text-muted-foreground">Loading roles...</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" onClick={onBack}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Models
+        </Button>
+        <div>
+          <h2 className="text-2xl font-bold">Roles</h2>
+          <p className="text-muted-foreground">
+            Roles users are assigned to and model permissions are granted to
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Create Role</CardTitle>
+            <CardDescription>
+              New roles appear in the RBAC matrix of every model with only the permissions they inherit. System permissions allow managing model definitions; admin roles hold them all
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Name</label>
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g., Editor"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Description</label>
+                <Input
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="e.g., Edits published content"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Inherits From</label>
+                {renderParentSelect(parent, setParent, roles)}
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch checked={isAdmin} onCheckedChange={setIsAdmin} />
+              <label className="text-sm">Admin role (bypasses ownership rules and manages roles)</label>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">System Permissions</label>
+              <div className="flex flex-wrap gap-2">
+                {SYSTEM_PERMISSIONS.map((permission) => (
+                  <Badge
+                    key={permission}
+                    variant={isAdmin || permissions.includes(permission) ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => setPermissions(
+                      permissions.includes(permission)
+                        ? permissions.filter(p => p !== permission)
+                        : [...permissions, permission]
+                    )}
+                  >
+                    {permission}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <Button onClick={handleCreate} disabled={!name}>
+              <Plus className="w-4 h-4 mr-2" />
+              Create Role
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Roles</CardTitle>
+          <CardDescription>
+            Roles assigned to users, inherited by another role or used by a model cannot be deleted
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Inherits From</TableHead>
+                <TableHead>Admin</TableHead>
+                <TableHead>System Permissions</TableHead>
+                <TableHead>Users</TableHead>
+                <TableHead>Models</TableHead>
+                {canManage && <TableHead>Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {roles.map((role) => (
+                <TableRow key={role.id}>
+                  <TableCell className="font-medium">{role.name}</TableCell>
+                  <TableCell className="text-muted-foreground">{role.description || '-'}</TableCell>
+                  <TableCell>
+                    {canManage
+                      ? renderParentSelect(
+                          role.parent || NO_PARENT,
+                          (value) => saveRole(`/api/roles/${role.id}`, 'PUT', { parent: value === NO_PARENT ? null : value }),
+                          roles.filter(candidate => candidate.id !== role.id)
+                        )
+                      : role.parent || '-'}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={role.isAdmin}
+                      disabled={!canManage}
+                      onCheckedChange={(checked) => saveRole(`/api/roles/${role.id}`, 'PUT', { isAdmin: checked })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {SYSTEM_PERMISSIONS.map((permission) => (
+                        <Badge
+                          key={permission}
+                          variant={role.isAdmin || role.permissions.includes(permission) ? 'default' : 'outline'}
+                          className={canManage && !role.isAdmin ? 'cursor-pointer' : undefined}
+                          onClick={canManage && !role.isAdmin ? () => handleTogglePermission(role, permission) : undefined}
+                        >
+                          {permission}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>{role.userCount}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {role.models.map((model) => (
+                        <Badge key={model} variant="outline">{model}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  {canManage && (
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(role)}
+                        disabled={
+                          role.userCount > 0 ||
+                          role.models.length > 0 ||
+                          roles.some(candidate => candidate.parent === role.name)
+                        }
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+function renderParentSelect(value: string, onChange: (value: string) => void, options: RoleInfo[]) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_PARENT}>None</SelectItem>
+        {options.map((role) => (
+          <SelectItem key={role.id} value={role.name}>
+            {role.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
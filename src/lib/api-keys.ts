@@ -0,0 +1,167 @@
+import { createHash, randomBytes } from 'crypto'
+import { db } from '@/lib/db'
+
+export const apiKeyActions = ['create', 'read', 'update', 'delete', 'purge'] as const
+
+export interface ApiKeyScope {
+  // Model names the key may access; all models when omitted
+  models?: string[]
+  // Actions the key may perform; all actions when omitted
+  actions?: Array<typeof apiKeyActions[number]>
+}
+
+export interface ApiKeyInfo {
+  id: string
+  name: string
+  prefix: string
+  scope: ApiKeyScope | null
+  lastUsedAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date
+}
+
+export interface VerifiedApiKey {
+  keyId: string
+  userId: string
+  scope: ApiKeyScope | null
+}
+
+const KEY_PREFIX = 'crk_'
+const DISPLAY_PREFIX_LENGTH = 12
+
+/**
+ * Raised when an API key scope is malformed
+ */
+export class ApiKeyScopeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ApiKeyScopeError'
+  }
+}
+
+export function parseApiKeyScope(value: unknown): ApiKeyScope | null {
+  if (value === undefined || value === null) {
+    return null
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ApiKeyScopeError('scope must be an object')
+  }
+
+  const { models, actions } = value as Record<string, unknown>
+  const scope: ApiKeyScope = {}
+
+  if (models !== undefined) {
+    if (!Array.isArray(models) || models.some(model => typeof model !== 'string' || !model)) {
+      throw new ApiKeyScopeError('scope.models must be a list of model names')
+    }
+    scope.models = models
+  }
+
+  if (actions !== undefined) {
+    if (!Array.isArray(actions) || actions.some(action => !(apiKeyActions as readonly string[]).includes(action))) {
+      throw new ApiKeyScopeError(`scope.actions may only contain ${apiKeyActions.join(', ')}`)
+    }
+    scope.actions = actions
+  }
+
+  return scope
+}
+
+export class ApiKeyService {
+  hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex')
+  }
+
+  /**
+   * Create a key for a user. The plain key is only returned here.
+   */
+  async create(userId: string, name: string, scope: ApiKeyScope | null): Promise<{ apiKey: ApiKeyInfo; key: string }> {
+    const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`
+
+    const apiKey = await db.apiKey.create({
+      data: {
+        name,
+        prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        keyHash: this.hashKey(key),
+        scope: scope ? JSON.stringify(scope) : null,
+        userId,
+      },
+    })
+
+    return { apiKey: this.toInfo(apiKey), key }
+  }
+
+  async list(userId: string): Promise<ApiKeyInfo[]> {
+    const apiKeys = await db.apiKey.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return apiKeys.map((apiKey: any) => this.toInfo(apiKey))
+  }
+
+  async revoke(userId: string, id: string): Promise<boolean> {
+    const result = await db.apiKey.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    })
+
+    return result.count > 0
+  }
+
+  /**
+   * Replace a key with a new one that keeps its name and scope
+   */
+  async rotate(userId: string, id: string): Promise<{ apiKey: ApiKeyInfo; key: string } | null> {
+    const existing = await db.apiKey.findFirst({
+      where: { id, userId, revokedAt: null },
+    })
+    if (!existing) {
+      return null
+    }
+
+    await this.revoke(userId, id)
+    return this.create(userId, existing.name, existing.scope ? JSON.parse(existing.scope) : null)
+  }
+
+  /**
+   * Look up the active key matching a bearer token
+   */
+  async verify(key: string): Promise<VerifiedApiKey | null> {
+    if (!key.startsWith(KEY_PREFIX)) {
+      return null
+    }
+
+    const apiKey = await db.apiKey.findUnique({
+      where: { keyHash: this.hashKey(key) },
+    })
+    if (!apiKey || apiKey.revokedAt) {
+      return null
+    }
+
+    await db.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() },
+    })
+
+    return {
+      keyId: apiKey.id,
+      userId: apiKey.userId,
+      scope: apiKey.scope ? JSON.parse(apiKey.scope) : null,
+    }
+  }
+
+  private toInfo(apiKey: any): ApiKeyInfo {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scope: apiKey.scope ? JSON.parse(apiKey.scope) : null,
+      lastUsedAt: apiKey.lastUsedAt,
+      revokedAt: apiKey.revokedAt,
+      createdAt: apiKey.createdAt,
+    }
+  }
+}
+
+export const apiKeys = new ApiKeyService()
@@ -0,0 +1,230 @@
+import { db } from '@/lib/db'
+import type { User } from '@/lib/rbac'
+
+export const auditEntities = ['record', 'model'] as const
+export const auditActions = [
+  'create', 'update', 'delete', 'publish', 'restore', 'purge',
+  'deprecate', 'archive', 'unpublish', 'link', 'unlink',
+] as const
+// system: scheduled jobs and maintenance scripts, such as the trash purge
+export const auditSources = ['ui', 'api_key', 'socket', 'system'] as const
+
+export type AuditEntity = typeof auditEntities[number]
+export type AuditAction = typeof auditActions[number]
+export type AuditSource = typeof auditSources[number]
+
+// Field name -> value before and after the change; null when absent
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>
+
+export interface AuditEntry {
+  entity: AuditEntity
+  model: string
+  recordId?: string | null
+  action: AuditAction
+  // Snapshots of the record or model definition around the change
+  before?: object | null
+  after?: object | null
+  // Defaults to the source matching how the actor authenticated
+  source?: AuditSource
+}
+
+export interface AuditFilters {
+  actorId?: string
+  model?: string
+  recordId?: string
+  entity?: AuditEntity
+  action?: AuditAction
+  source?: AuditSource
+  from?: Date
+  to?: Date
+  limit: number
+  offset: number
+}
+
+export interface AuditLogInfo {
+  id: string
+  actorId: string | null
+  actorEmail: string | null
+  role: string | null
+  entity: AuditEntity
+  model: string
+  recordId: string | null
+  action: AuditAction
+  changes: AuditChanges
+  source: AuditSource
+  createdAt: Date
+}
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 500
+
+// Bumped on every write, so listing it would only repeat the entry timestamp
+const IGNORED_FIELDS = ['updatedAt']
+
+/**
+ * Raised when the audit query string is malformed
+ */
+export class AuditQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AuditQueryError'
+  }
+}
+
+/**
+ * Fields whose value differs between two snapshots. Either side may be
+ * missing, as for creates and deletes.
+ */
+export function diffSnapshots(before?: object | null, after?: object | null): AuditChanges {
+  const changes: AuditChanges = {}
+  const oldValues = (before || {}) as Record<string, unknown>
+  const newValues = (after || {}) as Record<string, unknown>
+  const names = new Set([...Object.keys(oldValues), ...Object.keys(newValues)])
+
+  for (const name of names) {
+    if (IGNORED_FIELDS.includes(name)) {
+      continue
+    }
+    const oldValue = oldValues[name] ?? null
+    const newValue = newValues[name] ?? null
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes[name] = { before: oldValue, after: newValue }
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Flatten a stored model definition row so schema changes diff per property
+ */
+export function modelSnapshot(model: { name: string; tableName?: string | null; definition: string }): object {
+  return { name: model.name, tableName: model.tableName ?? null, ...JSON.parse(model.definition) }
+}
+
+/**
+ * Read audit filters from a query string, e.g. ?model=invoice&action=delete&from=2024-01-01
+ */
+export function parseAuditFilters(searchParams: URLSearchParams): AuditFilters {
+  const filters: AuditFilters = {
+    actorId: searchParams.get('actorId') || undefined,
+    model: searchParams.get('model') || undefined,
+    recordId: searchParams.get('recordId') || undefined,
+    entity: parseChoice(searchParams, 'entity', auditEntities),
+    action: parseChoice(searchParams, 'action', auditActions),
+    source: parseChoice(searchParams, 'source', auditSources),
+    from: parseDate(searchParams, 'from'),
+    to: parseDate(searchParams, 'to'),
+    limit: parseInteger(searchParams, 'limit', DEFAULT_LIMIT),
+    offset: parseInteger(searchParams, 'offset', 0),
+  }
+
+  if (filters.limit < 1 || filters.limit > MAX_LIMIT) {
+    throw new AuditQueryError(`limit must be between 1 and ${MAX_LIMIT}`)
+  }
+
+  return filters
+}
+
+function parseChoice<T extends string>(searchParams: URLSearchParams, name: string, choices: readonly T[]): T | undefined {
+  const value = searchParams.get(name)
+  if (!value) {
+    return undefined
+  }
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new AuditQueryError(`${name} must be one of ${choices.join(', ')}`)
+  }
+  return value as T
+}
+
+function parseDate(searchParams: URLSearchParams, name: string): Date | undefined {
+  const value = searchParams.get(name)
+  if (!value) {
+    return undefined
+  }
+  const date = new Date(value)
+  if (isNaN(date.getTime())) {
+    throw new AuditQueryError(`${name} must be a date`)
+  }
+  return date
+}
+
+function parseInteger(searchParams: URLSearchParams, name: string, fallback: number): number {
+  const value = searchParams.get(name)
+  if (value === null || value === '') {
+    return fallback
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new AuditQueryError(`${name} must be a non-negative integer`)
+  }
+  return Number(value)
+}
+
+export class AuditLogService {
+  /**
+   * Append an entry for a change the user made, or a scheduled job when there
+   * is no user. A failed write is logged and swallowed: the change itself has
+   * already been committed.
+   */
+  async record(user: User | null, entry: AuditEntry): Promise<void> {
+    try {
+      await db.auditLog.create({
+        data: {
+          actorId: user?.id ?? null,
+          actorEmail: user?.email ?? null,
+          role: user?.role ?? null,
+          entity: entry.entity,
+          model: entry.model,
+          recordId: entry.recordId ?? null,
+          action: entry.action,
+          changes: JSON.stringify(diffSnapshots(entry.before, entry.after)),
+          source: entry.source ?? (!user ? 'system' : user.authMethod === 'apiKey' ? 'api_key' : 'ui'),
+        },
+      })
+    } catch (error) {
+      console.error('Error writing audit log:', error)
+    }
+  }
+
+  /**
+   * Entries matching the filters, newest first
+   */
+  async query(filters: AuditFilters): Promise<{ data: AuditLogInfo[]; total: number }> {
+    const where = {
+      ...(filters.actorId ? { actorId: filters.actorId } : {}),
+      ...(filters.model ? { model: filters.model } : {}),
+      ...(filters.recordId ? { recordId: filters.recordId } : {}),
+      ...(filters.entity ? { entity: filters.entity } : {}),
+      ...(filters.action ? { action: filters.action } : {}),
+      ...(filters.source ? { source: filters.source } : {}),
+      ...(filters.from || filters.to
+        ? {
+            createdAt: {
+              ...(filters.from ? { gte: filters.from } : {}),
+              ...(filters.to ? { lte: filters.to } : {}),
+            },
+          }
+        : {}),
+    }
+
+    const [entries, total] = await Promise.all([
+      db.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit,
+        skip: filters.offset,
+      }),
+      db.auditLog.count({ where }),
+    ])
+
+    return {
+      data: entries.map((entry: any) => ({
+        ...entry,
+        changes: entry.changes ? JSON.parse(entry.changes) : {},
+      })),
+      total,
+    }
+  }
+}
+
+export const auditLog = new AuditLogService()
@@ -0,0 +1,91 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { promisify } from 'util'
+import type { NextAuthOptions } from 'next-auth'
+import CredentialsProvider from 'next-auth/providers/credentials'
+import { db } from '@/lib/db'
+import { roles } from '@/lib/roles'
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>
+
+const KEY_LENGTH = 64
+
+/**
+ * Hash a password as "salt:hash" using scrypt
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex')
+  const hash = await scryptAsync(password, salt, KEY_LENGTH)
+  return `${salt}:${hash.toString('hex')}`
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':')
+  if (!salt || !hash) {
+    return false
+  }
+
+  const expected = Buffer.from(hash, 'hex')
+  const actual = await scryptAsync(password, salt, expected.length)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+export const authOptions: NextAuthOptions = {
+  session: {
+    strategy: 'jwt',
+  },
+  pages: {
+    signIn: '/login',
+  },
+  providers: [
+    CredentialsProvider({
+      name: 'Email and password',
+      credentials: {
+        email: { label: 'Email', type: 'email' },
+        password: { label: 'Password', type: 'password' },
+      },
+      async authorize(credentials) {
+        if (!credentials?.email || !credentials.password) {
+          return null
+        }
+
+        const user = await db.user.findUnique({
+          where: { email: credentials.email },
+        })
+        if (!user?.passwordHash || !(await verifyPassword(credentials.password, user.passwordHash))) {
+          return null
+        }
+
+        const role = await roles.findByName(user.role)
+
+        return {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          isAdmin: !!role?.isAdmin,
+          permissions: await roles.getSystemPermissions(user.role),
+        }
+      },
+    }),
+  ],
+  callbacks: {
+    async jwt({ token, user }) {
+      if (user) {
+        token.id = user.id
+        token.role = user.role
+        token.isAdmin = user.isAdmin
+        token.permissions = user.permissions
+      }
+      return token
+    },
+    async session({ session, token }) {
+      if (session.user) {
+        session.user.id = token.id
+        session.user.role = token.role
+        session.user.isAdmin = token.isAdmin
+        session.user.permissions = token.permissions
+      }
+      return session
+    },
+  },
+}
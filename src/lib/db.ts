@@ -2,6 +2,7 @@ import { PrismaClient } from '@prisma/client'
 
 const globalForPrisma = globalThis as unknown as {
   prisma: PrismaClient | undefined
+  recordsDb: PrismaClient | undefined
 }
 
 export const db =
@@ -10,4 +11,16 @@ export const db =
     log: ['query'],
   })
 
-if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = db
\ No newline at end of file
+// Published models get their own physical tables. They live in a separate
+// SQLite file so `prisma db push` never sees (and drops) them.
+export const recordsDb =
+  globalForPrisma.recordsDb ??
+  new PrismaClient({
+    datasourceUrl: process.env.RECORDS_DATABASE_URL || 'file:./records.db',
+    log: ['query'],
+  })
+
+if (process.env.NODE_ENV !== 'production') {
+  globalForPrisma.prisma = db
+  globalForPrisma.recordsDb = recordsDb
+}
\ No newline at end of file
@@ -0,0 +1,101 @@
+import type { ModelDefinition } from '@/lib/model-persistence'
+
+// Format checks of the field types, shared by the record store, the schema
+// manager, the query parser and the data admin, so this module must stay free
+// of server-only imports
+
+type FieldDefinition = ModelDefinition['fields'][number]
+
+// Field types that take min/max rules, and those that take length and pattern rules
+export const numericFieldTypes = ['number', 'integer', 'decimal'] as const
+export const textFieldTypes = ['string', 'text', 'email', 'url'] as const
+
+// Digits a REAL column holds exactly; decimal fields are stored as REAL
+export const MAX_DECIMAL_PRECISION = 15
+export const DEFAULT_DECIMAL_SCALE = 2
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+
+/**
+ * Whether a validation pattern compiles as a JavaScript regular expression
+ */
+export function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function isEmail(value: string): boolean {
+  return EMAIL_PATTERN.test(value)
+}
+
+/**
+ * Absolute http(s) URLs only; other schemes such as javascript: are rejected
+ */
+export function isUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * A calendar day as YYYY-MM-DD, e.g. 2024-02-29 but not 2023-02-29
+ */
+export function isDateOnly(value: string): boolean {
+  const match = value.match(DATE_ONLY_PATTERN)
+  if (!match) {
+    return false
+  }
+  const date = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(date.getTime()) && date.getUTCDate() === Number(match[3])
+}
+
+/**
+ * Precision and scale of a decimal field. The default scale never exceeds
+ * the precision, so a field with precision 1 holds values such as 0.5.
+ */
+export function getDecimalFormat(field: FieldDefinition): { precision: number; scale: number } {
+  const precision = field.precision ?? MAX_DECIMAL_PRECISION
+  return {
+    precision,
+    scale: field.scale ?? Math.min(DEFAULT_DECIMAL_SCALE, precision),
+  }
+}
+
+/**
+ * Whether a number fits the precision (total digits) and scale (digits
+ * after the decimal point) of a decimal field
+ */
+export function fitsDecimal(field: FieldDefinition, value: number): boolean {
+  const { precision, scale } = getDecimalFormat(field)
+  if (!Number.isFinite(value)) {
+    return false
+  }
+  if (value === 0) {
+    return true
+  }
+
+  // Count digits on the shortest decimal form of the number, e.g. 1.5e-7
+  const [mantissa, exponent = '0'] = Math.abs(value).toString().split('e')
+  const [whole, fraction = ''] = mantissa.split('.')
+  const padded = (whole + fraction).replace(/0+$/, '')
+  const digits = padded.replace(/^0+/, '')
+  const point = whole.length + Number(exponent) - (padded.length - digits.length)
+
+  return Math.max(digits.length - point, 0) <= scale && Math.max(point, 0) <= precision - scale
+}
+
+/**
+ * Describe the precision and scale of a decimal field for error messages
+ */
+export function describeDecimal(field: FieldDefinition): string {
+  const { precision, scale } = getDecimalFormat(field)
+  return `at most ${precision - scale} digits before and ${scale} after the decimal point`
+}
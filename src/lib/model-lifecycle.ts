@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auditLog } from '@/lib/audit'
+import { db } from '@/lib/db'
+import { modelPersistence } from '@/lib/model-persistence'
+import { ModelStatus, modelTransitions } from '@/lib/model-statuses'
+import { recordRelations } from '@/lib/record-relations'
+import type { User } from '@/lib/rbac'
+
+const AUDIT_ACTIONS = {
+  draft: 'unpublish',
+  published: 'publish',
+  deprecated: 'deprecate',
+  archived: 'archive',
+} as const
+
+export interface ModelState {
+  status: ModelStatus
+  deprecatedAt: Date | null
+}
+
+/**
+ * Raised when a model cannot move to the requested status
+ */
+export class LifecycleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LifecycleError'
+  }
+}
+
+export class ModelLifecycleService {
+  /**
+   * The status of a model by name; null when only its JSON file exists
+   */
+  async findState(modelName: string): Promise<ModelState | null> {
+    const model = await db.modelDefinition.findUnique({
+      where: { name: modelName },
+      select: { status: true, deprecatedAt: true },
+    })
+
+    return model ? { status: model.status, deprecatedAt: model.deprecatedAt } : null
+  }
+
+  /**
+   * Move a model to another status. Unpublishing removes its JSON file, which
+   * takes the API offline; the table and its records are kept.
+   */
+  async transition(modelId: string, status: ModelStatus, user: User) {
+    const model = await db.modelDefinition.findUnique({ where: { id: modelId } })
+    if (!model) {
+      return null
+    }
+
+    const current = model.status as ModelStatus
+    if (!modelTransitions[current].includes(status)) {
+      throw new LifecycleError(
+        current === 'draft'
+          ? 'Publish the model to take it live'
+          : `A ${current} model cannot become ${status}`
+      )
+    }
+
+    if (status === 'draft') {
+      const dependents = await recordRelations.findDependents(model.name)
+      if (dependents.length > 0) {
+        throw new LifecycleError(`${model.name} is referenced by ${dependents.join(', ')}; remove those relations first`)
+      }
+      await modelPersistence.deleteModel(model.name)
+    } else if (!(await modelPersistence.modelExists(model.name))) {
+      throw new LifecycleError(`${model.name} has no published file; run the model sync first`)
+    }
+
+    const updated = await db.modelDefinition.update({
+      where: { id: modelId },
+      data: {
+        status,
+        // Archiving keeps the date, so a model moved back to deprecated reports
+        // when it was first deprecated
+        deprecatedAt: status === 'deprecated'
+          ? model.deprecatedAt ?? new Date()
+          : status === 'archived' ? model.deprecatedAt : null,
+      },
+    })
+
+    await auditLog.record(user, {
+      entity: 'model',
+      model: model.name,
+      recordId: model.id,
+      action: AUDIT_ACTIONS[status],
+      before: { status: current },
+      after: { status },
+    })
+
+    return updated
+  }
+}
+
+export const modelLifecycle = new ModelLifecycleService()
+
+/**
+ * Wrap a CRUD route handler so archived models answer 410 Gone and deprecated
+ * ones carry a Deprecation header (RFC 9745) on every response
+ */
+export function withModelLifecycle<Context extends { params: { modelName: string } }>(
+  handler: (request: NextRequest, context: Context) => Promise<NextResponse>
+) {
+  return async (request: NextRequest, context: Context): Promise<NextResponse> => {
+    const state = await modelLifecycle.findState(context.params.modelName)
+
+    if (state?.status === 'archived') {
+      return NextResponse.json(
+        { error: `Model ${context.params.modelName} has been archived` },
+        { status: 410 }
+      )
+    }
+
+    const response = await handler(request, context)
+    if (state?.status === 'deprecated' && state.deprecatedAt) {
+      response.headers.set('Deprecation', `@${Math.floor(new Date(state.deprecatedAt).getTime() / 1000)}`)
+    }
+    return response
+  }
+}
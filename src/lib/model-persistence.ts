@@ -1,25 +1,154 @@
-import { promises as fs } from 'fs'
+import { EventEmitter } from 'events'
+import { FSWatcher, promises as fs, watch } from 'fs'
 import path from 'path'
+import { fieldTypes, onDeleteActions, parseModelDefinition } from '@/lib/model-schema'
+import { diffModels } from '@/lib/schema-diff'
+import { schemaManager } from '@/lib/schema-manager'
+
+export interface FieldPermission {
+  read?: boolean
+  write?: boolean
+}
+
+/**
+ * Row-level rule: for the listed roles and actions, only records matching the
+ * condition (e.g. `department == user.department`) are visible or writable
+ */
+export interface RowPolicy {
+  roles: string[]
+  actions: Array<'read' | 'update' | 'delete'>
+  condition: string
+}
+
+/**
+ * Per-field value rules; see fieldValidationSchema for which types take which rule
+ */
+export interface FieldValidation {
+  min?: number
+  max?: number
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  allowedValues?: Array<string | number>
+  message?: string
+}
+
+/**
+ * Many-to-many link to the records of another model, e.g. Student.courses.
+ * The linked model sees the same links in reverse as Student.courses.
+ */
+export interface ModelLink {
+  name: string
+  model: string
+}
 
 export interface ModelDefinition {
   name: string
   tableName?: string
   fields: Array<{
     name: string
-    type: 'string' | 'number' | 'boolean' | 'date' | 'text'
+    type: typeof fieldTypes[number]
     required?: boolean
     default?: string
     unique?: boolean
+    // Related model of a relation field, which stores one of its record ids
     relation?: string
+    // Applied to this record when the related record is deleted; restrict by default
+    onDelete?: typeof onDeleteActions[number]
+    // Values of an enum field
+    options?: string[]
+    // Total digits and digits after the decimal point of a decimal field
+    precision?: number
+    scale?: number
+    // Rules checked on every write, on top of the type
+    validation?: FieldValidation
+    // Per-role field access; a role without an entry may read and write
+    permissions?: Record<string, FieldPermission>
   }>
   ownerField?: string
   rbac: Record<string, string[]>
+  policies?: RowPolicy[]
+  links?: ModelLink[]
+  // Deleted records move to a trash instead of being removed
+  softDelete?: boolean
+  // Days a record stays in the trash before it is purged; forever when unset
+  retentionDays?: number | null
+}
+
+/**
+ * The definition a ModelDefinition row would publish
+ */
+export function toModelDefinition(model: { name: string; tableName: string | null; definition: string }): ModelDefinition {
+  return {
+    name: model.name,
+    tableName: model.tableName || undefined,
+    ...JSON.parse(model.definition),
+  }
 }
 
-export class ModelPersistence {
+/**
+ * Emitted as 'change' whenever a model file is written, edited on disk or
+ * removed. `model` is empty for removals.
+ */
+export interface ModelChange {
+  name: string
+  action: 'added' | 'updated' | 'removed'
+  model: ModelDefinition | null
+}
+
+/**
+ * Emitted as 'invalid' when a file on disk cannot be loaded. The last good
+ * version of the model stays in the registry.
+ */
+export interface InvalidModelFile {
+  file: string
+  error: string
+}
+
+/**
+ * Raised when a model file cannot be served, e.g. because it is named
+ * differently from the model it defines or needs a destructive migration
+ */
+export class ModelFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ModelFileError'
+  }
+}
+
+// Editors and git write a file in several steps; wait for them to settle
+const RELOAD_DELAY_MS = 100
+
+/**
+ * Check a parsed model file, e.g. one edited by hand or pulled from git,
+ * against the shared definition schema. The model name must match the file name.
+ */
+export function validateModelFile(value: unknown, fileName: string): ModelDefinition {
+  const model = parseModelDefinition(value)
+  if (`${model.name}.json` !== fileName) {
+    throw new ModelFileError(`name must match the file name ${fileName}`)
+  }
+
+  return model as ModelDefinition
+}
+
+/**
+ * Published model definitions, stored as /models/<name>.json and served from
+ * an in-memory registry. The registry is filled on first use and then kept
+ * current by watching the directory, so files pulled from git go live
+ * without a restart.
+ */
+export class ModelPersistence extends EventEmitter {
   private modelsDir: string
+  private models = new Map<string, ModelDefinition>()
+  // Raw contents of each loaded file, so our own writes are not reloaded
+  private contents = new Map<string, string>()
+  private reloadTimers = new Map<string, ReturnType<typeof setTimeout>>()
+  private watcher: FSWatcher | null = null
+  private ready: Promise<void> | null = null
 
   constructor(modelsDir: string = './models') {
+    super()
     this.modelsDir = modelsDir
   }
 
@@ -31,64 +160,79 @@ export class ModelPersistence {
     }
   }
 
+  /**
+   * Load every model file and start watching the directory. Called on first
+   * use; safe to call again.
+   */
+  watch(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.startRegistry().catch(error => {
+        this.ready = null
+        throw error
+      })
+    }
+    return this.ready
+  }
+
+  /**
+   * Stop watching; the next read loads the registry again
+   */
+  close(): void {
+    this.watcher?.close()
+    this.watcher = null
+    this.ready = null
+    for (const timer of this.reloadTimers.values()) {
+      clearTimeout(timer)
+    }
+    this.reloadTimers.clear()
+    this.models.clear()
+    this.contents.clear()
+  }
+
   async saveModel(model: ModelDefinition): Promise<void> {
-    await this.ensureModelsDirectory()
-    
+    await this.watch()
+
     const fileName = `${model.name}.json`
     const filePath = path.join(this.modelsDir, fileName)
-    
+
+    // Republishing keeps the date the model was first published
+    const existing = this.models.get(model.name) as { createdAt?: string } | undefined
+    const now = new Date().toISOString()
     const modelWithMetadata = {
       ...model,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
     }
-    
-    await fs.writeFile(filePath, JSON.stringify(modelWithMetadata, null, 2))
+
+    // Never write a file the registry would refuse to load
+    validateModelFile(modelWithMetadata, fileName)
+    const content = JSON.stringify(modelWithMetadata, null, 2)
+    await fs.writeFile(filePath, content)
+    this.store(fileName, content, modelWithMetadata)
   }
 
   async loadModel(modelName: string): Promise<ModelDefinition | null> {
-    try {
-      const fileName = `${modelName}.json`
-      const filePath = path.join(this.modelsDir, fileName)
-      
-      const content = await fs.readFile(filePath, 'utf-8')
-      return JSON.parse(content)
-    } catch {
-      return null
-    }
+    await this.watch()
+
+    const model = this.models.get(modelName)
+    return model ? structuredClone(model) : null
   }
 
   async loadAllModels(): Promise<ModelDefinition[]> {
-    await this.ensureModelsDirectory()
-    
-    try {
-      const files = await fs.readdir(this.modelsDir)
-      const modelFiles = files.filter(file => file.endsWith('.json'))
-      
-      const models: ModelDefinition[] = []
-      for (const file of modelFiles) {
-        try {
-          const filePath = path.join(this.modelsDir, file)
-          const content = await fs.readFile(filePath, 'utf-8')
-          const model = JSON.parse(content)
-          models.push(model)
-        } catch (error) {
-          console.error(`Error loading model from ${file}:`, error)
-        }
-      }
-      
-      return models
-    } catch {
-      return []
-    }
+    await this.watch()
+
+    return [...this.models.values()]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(model => structuredClone(model))
   }
 
   async deleteModel(modelName: string): Promise<boolean> {
+    await this.watch()
+
     try {
       const fileName = `${modelName}.json`
-      const filePath = path.join(this.modelsDir, fileName)
-      
-      await fs.unlink(filePath)
+      await fs.unlink(path.join(this.modelsDir, fileName))
+      this.forget(fileName)
       return true
     } catch {
       return false
@@ -116,78 +260,128 @@ export class ModelPersistence {
   }
 
   async modelExists(modelName: string): Promise<boolean> {
-    try {
-      const fileName = `${modelName}.json`
-      const filePath = path.join(this.modelsDir, fileName)
-      await fs.access(filePath)
-      return true
-    } catch {
-      return false
-    }
+    await this.watch()
+
+    return this.models.has(modelName)
   }
 
   getModelFilePath(modelName: string): string {
     return path.join(this.modelsDir, `${modelName}.json`)
   }
 
-  generatePrismaSchema(model: ModelDefinition): string {
-    const { name, tableName, fields, ownerField } = model
-    
-    let schema = `model ${name} {\n`
-    schema += `  id        String   @id @default(cuid())\n`
-    
-    if (ownerField) {
-      schema += `  ${ownerField} String\n`
+  getTableName(model: ModelDefinition): string {
+    return model.tableName || `${model.name.toLowerCase()}s`
+  }
+
+  private async startRegistry(): Promise<void> {
+    await this.ensureModelsDirectory()
+
+    // Files present at startup were migrated when they were published
+    const files = (await fs.readdir(this.modelsDir)).filter(file => file.endsWith('.json'))
+    for (const file of files) {
+      await this.reload(file, false)
     }
-    
-    fields.forEach(field => {
-      let fieldLine = `  ${field.name}  `
-      
-      switch (field.type) {
-        case 'string':
-          fieldLine += 'String'
-          break
-        case 'number':
-          fieldLine += 'Float'
-          break
-        case 'boolean':
-          fieldLine += 'Boolean'
-          break
-        case 'date':
-          fieldLine += 'DateTime'
-          break
-        case 'text':
-          fieldLine += 'String'
-          break
+
+    this.watcher = watch(this.modelsDir, (_event, fileName) => {
+      if (fileName && fileName.toString().endsWith('.json')) {
+        this.scheduleReload(fileName.toString())
       }
-      
-      if (field.required) {
-        fieldLine += ' @db.NotNull'
+    })
+    // Scripts using the registry should still exit when they are done
+    this.watcher.unref()
+    this.watcher.on('error', error => console.error('Error watching models:', error))
+  }
+
+  private scheduleReload(file: string): void {
+    clearTimeout(this.reloadTimers.get(file))
+    this.reloadTimers.set(file, setTimeout(() => {
+      this.reloadTimers.delete(file)
+      this.reload(file, true).catch(error => console.error(`Error reloading model from ${file}:`, error))
+    }, RELOAD_DELAY_MS))
+  }
+
+  /**
+   * Read one file into the registry. A removed file drops its model; an
+   * invalid one is reported and the last good version is kept. With migrate
+   * set, the table is migrated before the new version is served.
+   */
+  private async reload(file: string, migrate: boolean): Promise<void> {
+    let content: string
+    try {
+      content = await fs.readFile(path.join(this.modelsDir, file), 'utf-8')
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        this.forget(file)
+        return
       }
-      
-      if (field.unique) {
-        fieldLine += ' @unique'
+      throw error
+    }
+
+    if (this.contents.get(file) === content) {
+      return
+    }
+
+    try {
+      const model = validateModelFile(JSON.parse(content), file)
+      if (migrate) {
+        await this.migrate(model)
       }
-      
-      if (field.default) {
-        if (field.type === 'boolean') {
-          fieldLine += ` @default(${field.default})`
-        } else if (field.type === 'number') {
-          fieldLine += ` @default(${field.default})`
-        } else {
-          fieldLine += ` @default("${field.default}")`
-        }
+      this.store(file, content, model)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error(`Error loading model from ${file}: ${message}`)
+      this.emit('invalid', { file, error: message } satisfies InvalidModelFile)
+    }
+  }
+
+  /**
+   * Bring the table of a file edited on disk in line with it. Destructive
+   * changes are refused, so the served version keeps matching its table
+   * until models:sync has applied them; the file it then writes is accepted
+   * because the table already has its columns.
+   */
+  private async migrate(model: ModelDefinition): Promise<void> {
+    const previous = this.models.get(model.name)
+    if (!previous) {
+      // Without a previous version nothing says which columns to keep
+      await schemaManager.ensureTable(model)
+      return
+    }
+
+    const plan = diffModels(previous, model)
+    if (plan.destructive) {
+      if (await schemaManager.matchesTable(model)) {
+        return
       }
-      
-      schema += fieldLine + '\n'
-    })
-    
-    schema += `  createdAt DateTime @default(now())\n`
-    schema += `  updatedAt DateTime @updatedAt\n`
-    schema += `}\n`
-    
-    return schema
+      const changes = plan.changes.filter(change => !change.safe).map(change => change.description)
+      throw new ModelFileError(
+        `the change needs a destructive migration (${changes.join('; ')}); run npm run models:sync -- --direction files --confirm to apply it`
+      )
+    }
+    await schemaManager.migrateTable(model, plan)
+  }
+
+  private store(file: string, content: string, model: ModelDefinition): void {
+    const action = this.models.has(model.name) ? 'updated' : 'added'
+    this.contents.set(file, content)
+    this.models.set(model.name, model)
+    this.emit('change', { name: model.name, action, model: structuredClone(model) } satisfies ModelChange)
   }
+
+  private forget(file: string): void {
+    const name = file.replace(/\.json$/, '')
+    this.contents.delete(file)
+    if (this.models.delete(name)) {
+      this.emit('change', { name, action: 'removed', model: null } satisfies ModelChange)
+    }
+  }
+}
+
+const globalForModels = globalThis as unknown as {
+  modelPersistence: ModelPersistence | undefined
 }
 
-export const modelPersistence = new ModelPersistence()
\ No newline at end of file
+// One registry and watcher per process, shared by the custom server, the
+// route bundles and hot reloads
+export const modelPersistence = globalForModels.modelPersistence ?? new ModelPersistence()
+globalForModels.modelPersistence = modelPersistence
@@ -0,0 +1,259 @@
+import * as z from 'zod'
+import { isValidPattern, MAX_DECIMAL_PRECISION, numericFieldTypes, textFieldTypes } from '@/lib/field-formats'
+
+// Shared by the model designer, the model API routes and the /models file
+// loader, so this module must stay free of server-only imports
+
+// date holds a date and time; dateOnly holds a calendar day as YYYY-MM-DD
+export const fieldTypes = [
+  'string', 'text', 'email', 'url', 'enum',
+  'number', 'integer', 'decimal', 'boolean',
+  'date', 'dateOnly', 'json', 'relation',
+] as const
+export const rbacActions = ['create', 'read', 'update', 'delete', 'purge'] as const
+export const policyActions = ['read', 'update', 'delete'] as const
+
+// What happens to referencing records when the related record is deleted
+export const onDeleteActions = ['restrict', 'cascade', 'setNull'] as const
+// Columns every model table has
+export const reservedFieldNames = ['id', 'createdAt', 'updatedAt', 'deletedAt'] as const
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+const identifier = (label: string) =>
+  z.string()
+    .min(1, `${label} is required`)
+    .regex(IDENTIFIER_PATTERN, `${label} must start with a letter or underscore and contain only letters, digits and underscores`)
+
+// The designer submits an empty string for an unset optional name
+const optionalIdentifier = (label: string) => z.union([z.literal(''), identifier(label)]).optional()
+
+// Rules a value must pass on top of its type; blank values are only checked by required
+export const fieldValidationSchema = z.strictObject({
+  min: z.number().optional(),
+  max: z.number().optional(),
+  minLength: z.number().int('Lengths must be whole numbers').min(0, 'Lengths cannot be negative').optional(),
+  maxLength: z.number().int('Lengths must be whole numbers').min(0, 'Lengths cannot be negative').optional(),
+  // Must match the whole value, like the HTML pattern attribute
+  pattern: z.string().min(1, 'Pattern cannot be empty').refine(isValidPattern, 'Pattern must be a valid regular expression').optional(),
+  allowedValues: z.array(z.union([z.string(), z.number()])).min(1, 'List at least one allowed value').optional(),
+  // Shown instead of the default message when the value is rejected
+  message: z.string().min(1, 'Message cannot be empty').optional(),
+}).superRefine((rules, ctx) => {
+  if (rules.min !== undefined && rules.max !== undefined && rules.min > rules.max) {
+    ctx.addIssue({ code: 'custom', path: ['max'], message: 'max cannot be less than min' })
+  }
+  if (rules.minLength !== undefined && rules.maxLength !== undefined && rules.minLength > rules.maxLength) {
+    ctx.addIssue({ code: 'custom', path: ['maxLength'], message: 'maxLength cannot be less than minLength' })
+  }
+})
+
+export const fieldSchema = z.strictObject({
+  name: identifier('Field name').refine(
+    name => !(reservedFieldNames as readonly string[]).includes(name),
+    'This name is reserved for a built-in column'
+  ),
+  type: z.enum(fieldTypes),
+  required: z.boolean().optional(),
+  default: z.string().optional(),
+  unique: z.boolean().optional(),
+  // Name of the related model; relation fields store the id of one of its records
+  relation: identifier('Related model').optional(),
+  onDelete: z.enum(onDeleteActions).optional(),
+  // Values an enum field accepts
+  options: z.array(z.string().min(1, 'Options cannot be empty')).optional(),
+  // Total digits and digits after the decimal point of a decimal field
+  precision: z.number().int('Precision must be a whole number').min(1, 'Precision must be at least 1').max(MAX_DECIMAL_PRECISION, `Precision cannot exceed ${MAX_DECIMAL_PRECISION} digits`).optional(),
+  scale: z.number().int('Scale must be a whole number').min(0, 'Scale cannot be negative').optional(),
+  validation: fieldValidationSchema.optional(),
+  permissions: z.record(z.string(), z.strictObject({
+    read: z.boolean().optional(),
+    write: z.boolean().optional(),
+  })).optional(),
+}).superRefine((field, ctx) => {
+  if (field.type === 'enum') {
+    if (!field.options || field.options.length === 0) {
+      ctx.addIssue({ code: 'custom', path: ['options'], message: 'An enum field needs at least one option' })
+    } else {
+      field.options.forEach((option, index) => {
+        if (field.options!.indexOf(option) !== index) {
+          ctx.addIssue({ code: 'custom', path: ['options', index], message: `Option '${option}' is listed twice` })
+        }
+      })
+      if (field.default && !field.options.includes(field.default)) {
+        ctx.addIssue({ code: 'custom', path: ['default'], message: 'The default must be one of the options' })
+      }
+    }
+  } else if (field.options) {
+    ctx.addIssue({ code: 'custom', path: ['options'], message: 'Only enum fields have options' })
+  }
+
+  if (field.type === 'decimal') {
+    if (field.scale !== undefined && field.scale > (field.precision ?? MAX_DECIMAL_PRECISION)) {
+      ctx.addIssue({ code: 'custom', path: ['scale'], message: 'Scale cannot exceed the precision' })
+    }
+  } else {
+    if (field.precision !== undefined) {
+      ctx.addIssue({ code: 'custom', path: ['precision'], message: 'Only decimal fields have a precision' })
+    }
+    if (field.scale !== undefined) {
+      ctx.addIssue({ code: 'custom', path: ['scale'], message: 'Only decimal fields have a scale' })
+    }
+  }
+
+  const rules = field.validation
+  const isNumeric = (numericFieldTypes as readonly string[]).includes(field.type)
+  const isText = (textFieldTypes as readonly string[]).includes(field.type)
+  if (rules) {
+    for (const rule of ['min', 'max'] as const) {
+      if (rules[rule] !== undefined && !isNumeric) {
+        ctx.addIssue({ code: 'custom', path: ['validation', rule], message: `Only number, integer and decimal fields take ${rule}` })
+      }
+    }
+    for (const rule of ['minLength', 'maxLength', 'pattern'] as const) {
+      if (rules[rule] !== undefined && !isText) {
+        ctx.addIssue({ code: 'custom', path: ['validation', rule], message: `Only string, text, email and url fields take ${rule}` })
+      }
+    }
+    rules.allowedValues?.forEach((value, index) => {
+      if (isNumeric ? typeof value !== 'number' : !isText || typeof value !== 'string') {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['validation', 'allowedValues', index],
+          message: isNumeric || isText
+            ? `Allowed values of ${field.type} fields must be ${isNumeric ? 'numbers' : 'strings'}`
+            : `${field.type} fields do not take allowed values`,
+        })
+      }
+    })
+  }
+
+  if (field.type !== 'relation') {
+    if (field.relation) {
+      ctx.addIssue({ code: 'custom', path: ['relation'], message: 'Only relation fields can name a related model' })
+    }
+    if (field.onDelete) {
+      ctx.addIssue({ code: 'custom', path: ['onDelete'], message: 'Only relation fields have an on-delete action' })
+    }
+    return
+  }
+
+  if (!field.relation) {
+    ctx.addIssue({ code: 'custom', path: ['relation'], message: 'Choose the related model' })
+  }
+  if (field.default) {
+    ctx.addIssue({ code: 'custom', path: ['default'], message: 'Relation fields cannot have a default' })
+  }
+  if (field.onDelete === 'setNull' && field.required) {
+    ctx.addIssue({ code: 'custom', path: ['onDelete'], message: 'A required relation cannot be set to null' })
+  }
+})
+
+// Many-to-many link to another model, kept in a join table
+export const linkSchema = z.strictObject({
+  name: identifier('Link name'),
+  model: identifier('Linked model'),
+})
+
+// Keyed by role name; roles are managed at /api/roles
+export const rbacSchema = z.record(z.string(), z.array(z.enum(rbacActions)))
+
+// Conditions are parsed and checked on the server by the row policy engine
+export const policySchema = z.strictObject({
+  roles: z.array(z.string()).min(1, 'A policy needs at least one role'),
+  actions: z.array(z.enum(policyActions)).min(1, 'A policy needs at least one action'),
+  condition: z.string().min(1, 'A policy needs a condition'),
+})
+
+export const modelDefinitionSchema = z.strictObject({
+  name: identifier('Model name'),
+  tableName: optionalIdentifier('Table name'),
+  fields: z.array(fieldSchema).min(1, 'At least one field is required').superRefine((fields, ctx) => {
+    const seen = new Map<string, number>()
+    fields.forEach((field, index) => {
+      if (seen.has(field.name)) {
+        ctx.addIssue({ code: 'custom', path: [index, 'name'], message: `Field '${field.name}' is already defined at fields[${seen.get(field.name)}]` })
+      } else {
+        seen.set(field.name, index)
+      }
+    })
+  }),
+  ownerField: optionalIdentifier('Owner field'),
+  rbac: rbacSchema,
+  policies: z.array(policySchema).optional(),
+  links: z.array(linkSchema).optional().superRefine((links, ctx) => {
+    const seen = new Set<string>()
+    links?.forEach((link, index) => {
+      if (seen.has(link.name)) {
+        ctx.addIssue({ code: 'custom', path: [index, 'name'], message: `Link '${link.name}' is already defined` })
+      }
+      seen.add(link.name)
+    })
+  }),
+  softDelete: z.boolean().optional(),
+  retentionDays: z.number().int('Retention must be a whole number of days').positive('Retention must be at least one day').nullable().optional(),
+  // Written to published files by the server
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+}).superRefine((model, ctx) => {
+  if (model.ownerField) {
+    const owner = model.fields.find(field => field.name === model.ownerField)
+    if ((reservedFieldNames as readonly string[]).includes(model.ownerField)) {
+      ctx.addIssue({ code: 'custom', path: ['ownerField'], message: `'${model.ownerField}' is reserved for a built-in column` })
+    } else if (owner && owner.type !== 'string') {
+      ctx.addIssue({ code: 'custom', path: ['ownerField'], message: `Owner field collides with the ${owner.type} field '${owner.name}'; owner ids are strings` })
+    }
+  }
+
+  // Links are addressed by name alongside the fields
+  model.links?.forEach((link, index) => {
+    if (model.fields.some(field => field.name === link.name)) {
+      ctx.addIssue({ code: 'custom', path: ['links', index, 'name'], message: `Link '${link.name}' has the name of a field` })
+    }
+  })
+})
+
+export type ModelDefinitionInput = z.infer<typeof modelDefinitionSchema>
+
+export interface ModelValidationIssue {
+  // e.g. fields[2].name or rbac.Viewer[0]
+  path: string
+  message: string
+}
+
+/**
+ * Raised when a model definition does not match the schema. `issues` lists
+ * every problem with its path in the definition.
+ */
+export class ModelValidationError extends Error {
+  issues: ModelValidationIssue[]
+
+  constructor(issues: ModelValidationIssue[]) {
+    super(issues.map(issue => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join('; '))
+    this.name = 'ModelValidationError'
+    this.issues = issues
+  }
+}
+
+/**
+ * Check a model definition, throwing a ModelValidationError on any problem
+ */
+export function parseModelDefinition(value: unknown): ModelDefinitionInput {
+  const result = modelDefinitionSchema.safeParse(value)
+  if (!result.success) {
+    throw new ModelValidationError(result.error.issues.map(issue => ({
+      path: formatPath(issue.path),
+      message: issue.message,
+    })))
+  }
+  return result.data
+}
+
+export function formatPath(path: PropertyKey[]): string {
+  return path.reduce<string>((text, key) => {
+    if (typeof key === 'number') {
+      return `${text}[${key}]`
+    }
+    return text ? `${text}.${String(key)}` : String(key)
+  }, '')
+}
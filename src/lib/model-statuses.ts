@@ -0,0 +1,25 @@
+// Model statuses and the moves between them, shared by the lifecycle service
+// and the model list, so this module must stay free of server-only imports
+
+// draft: never published or unpublished, so it has no API
+// published: the CRUD API is live
+// deprecated: still served, with a Deprecation header
+// archived: the API answers 410 Gone; the table and its records are kept
+export const modelStatuses = ['draft', 'published', 'deprecated', 'archived'] as const
+
+export type ModelStatus = typeof modelStatuses[number]
+
+// A draft goes live through the publish endpoint, which migrates its table
+export const modelTransitions: Record<ModelStatus, ModelStatus[]> = {
+  draft: [],
+  published: ['deprecated', 'archived', 'draft'],
+  deprecated: ['published', 'archived', 'draft'],
+  archived: ['published', 'deprecated', 'draft'],
+}
+
+/**
+ * Whether a model in this status has a published JSON file
+ */
+export function isLive(status: ModelStatus): boolean {
+  return status !== 'draft'
+}
@@ -0,0 +1,238 @@
+import { auditLog, modelSnapshot } from '@/lib/audit'
+import { db } from '@/lib/db'
+import { ModelDefinition, modelPersistence, toModelDefinition } from '@/lib/model-persistence'
+import { isLive, ModelStatus } from '@/lib/model-statuses'
+import { modelVersions } from '@/lib/model-versions'
+import { recordRelations } from '@/lib/record-relations'
+import type { User } from '@/lib/rbac'
+import { rowPolicies } from '@/lib/row-policy'
+import { diffModels, MigrationPlan } from '@/lib/schema-diff'
+import { schemaManager } from '@/lib/schema-manager'
+
+// db: the ModelDefinition table wins; files: the /models JSON files win
+export const syncDirections = ['db', 'files'] as const
+
+export type SyncDirection = typeof syncDirections[number]
+
+// missingFile: a live model has no JSON file, so its API is offline
+// missingRow: a JSON file has no model row, so its API is live but hidden from the UI
+// unpublishedRow: a JSON file exists for a draft model
+// fileChanged: the JSON file differs from the definition last published
+export type DriftKind = 'missingFile' | 'missingRow' | 'unpublishedRow' | 'fileChanged'
+
+export interface ModelDrift {
+  model: string
+  kind: DriftKind
+  description: string
+}
+
+export interface SyncResult extends ModelDrift {
+  // skipped: the fix needs a destructive migration and confirm was not set
+  status: 'reconciled' | 'skipped' | 'failed'
+  error?: string
+  plan?: MigrationPlan
+}
+
+interface ModelRow {
+  id: string
+  name: string
+  tableName: string | null
+  definition: string
+  status: ModelStatus
+}
+
+// Written by saveModel, not part of the definition itself
+const METADATA_KEYS = ['createdAt', 'updatedAt']
+
+export class ModelSyncService {
+  /**
+   * Compare the model rows with the JSON files, ordered by model name
+   */
+  async detect(): Promise<ModelDrift[]> {
+    const { rows, files } = await this.loadSources()
+    const drifts: ModelDrift[] = []
+
+    for (const row of rows) {
+      const file = files.get(row.name)
+      if (!file) {
+        if (isLive(row.status)) {
+          drifts.push({ model: row.name, kind: 'missingFile', description: `${row.name} is ${row.status} but has no JSON file` })
+        }
+      } else if (!isLive(row.status)) {
+        drifts.push({ model: row.name, kind: 'unpublishedRow', description: `${row.name} is a draft but its JSON file is live` })
+      } else if (!sameDefinition(file, await this.publishedDefinition(row))) {
+        drifts.push({ model: row.name, kind: 'fileChanged', description: `The JSON file of ${row.name} differs from the published definition` })
+      }
+    }
+
+    const names = new Set(rows.map(row => row.name))
+    for (const name of files.keys()) {
+      if (!names.has(name)) {
+        drifts.push({ model: name, kind: 'missingRow', description: `${name} has a JSON file but no model in the database` })
+      }
+    }
+
+    return drifts.sort((a, b) => a.model.localeCompare(b.model))
+  }
+
+  /**
+   * Fix every drift in the given direction. Fixes that would run a destructive
+   * migration are skipped unless confirm is set; a failed fix does not stop the
+   * others. The user is empty when run from the command line.
+   */
+  async reconcile(direction: SyncDirection, user: User | null, confirm = false): Promise<SyncResult[]> {
+    const results: SyncResult[] = []
+
+    for (const drift of await this.detect()) {
+      try {
+        const plan = await this.fix(drift, direction, user, confirm)
+        results.push(plan && plan.destructive && !confirm
+          ? { ...drift, status: 'skipped', plan }
+          : { ...drift, status: 'reconciled', ...(plan ? { plan } : {}) })
+      } catch (error) {
+        results.push({ ...drift, status: 'failed', error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Apply one fix. Returns the migration plan when the fix publishes a
+   * definition; a destructive plan without confirm is returned unapplied.
+   */
+  private async fix(
+    drift: ModelDrift,
+    direction: SyncDirection,
+    user: User | null,
+    confirm: boolean
+  ): Promise<MigrationPlan | undefined> {
+    const { rows, files } = await this.loadSources()
+    const row = rows.find(candidate => candidate.name === drift.model)
+    const file = files.get(drift.model) || null
+
+    if (direction === 'db') {
+      if (!row || !isLive(row.status)) {
+        // The model is not meant to be live: take its API offline, keep the table
+        await modelPersistence.deleteModel(drift.model)
+        await auditLog.record(user, { entity: 'model', model: drift.model, recordId: row?.id, action: 'delete', before: file })
+        return undefined
+      }
+
+      // The table still has the shape of the published definition
+      const published = await this.publishedDefinition(row)
+      return this.publish(published, published, file, row.id, user, confirm)
+    }
+
+    if (!file) {
+      await db.modelDefinition.update({ where: { id: row!.id }, data: { status: 'draft', deprecatedAt: null } })
+      await auditLog.record(user, {
+        entity: 'model',
+        model: drift.model,
+        recordId: row!.id,
+        action: 'unpublish',
+        before: { status: row!.status },
+        after: { status: 'draft' },
+      })
+      return undefined
+    }
+
+    // The file wins: migrate the table from the published shape when there
+    // was one, and make the row's draft match the file
+    const definition = stripMetadata(file)
+    const wasLive = !!row && isLive(row.status)
+    const current = wasLive ? await this.publishedDefinition(row!) : definition
+    const plan = diffModels(current, definition)
+    if (plan.destructive && !confirm) {
+      return plan
+    }
+    rowPolicies.validate(definition)
+    await recordRelations.validateDefinition(definition)
+
+    const { name, tableName, ...rest } = definition
+    const data = { name, tableName: tableName || null, definition: JSON.stringify(rest), status: wasLive ? row!.status : 'published' }
+    const saved = row
+      ? await db.modelDefinition.update({ where: { id: row.id }, data })
+      : await db.modelDefinition.create({ data })
+    if (!row) {
+      await auditLog.record(user, { entity: 'model', model: name, recordId: saved.id, action: 'create', after: modelSnapshot(saved) })
+    }
+
+    return this.publish(definition, current, wasLive ? current : null, saved.id, user, confirm)
+  }
+
+  /**
+   * Migrate the table from `current` to `definition`, write the JSON file and
+   * keep a version, as publishing from the UI does
+   */
+  private async publish(
+    definition: ModelDefinition,
+    current: ModelDefinition,
+    previous: ModelDefinition | null,
+    rowId: string,
+    user: User | null,
+    confirm: boolean
+  ): Promise<MigrationPlan> {
+    const plan = diffModels(current, definition)
+    if (plan.destructive && !confirm) {
+      return plan
+    }
+
+    rowPolicies.validate(definition)
+    await recordRelations.validateDefinition(definition)
+    await schemaManager.migrateTable(definition, plan)
+    await modelPersistence.saveModel(definition)
+    await modelVersions.capture(definition, user, 'publish', previous)
+    await auditLog.record(user, {
+      entity: 'model',
+      model: definition.name,
+      recordId: rowId,
+      action: 'publish',
+      before: previous,
+      after: definition,
+    })
+
+    return plan
+  }
+
+  // The latest version when versions are kept, otherwise the row itself
+  private async publishedDefinition(row: ModelRow): Promise<ModelDefinition> {
+    const [latest] = await modelVersions.list(row.name)
+    return latest ? latest.definition : toModelDefinition(row)
+  }
+
+  private async loadSources(): Promise<{ rows: ModelRow[]; files: Map<string, ModelDefinition> }> {
+    const rows: ModelRow[] = await db.modelDefinition.findMany({ orderBy: { name: 'asc' } })
+    const files = new Map<string, ModelDefinition>()
+    for (const file of await modelPersistence.loadAllModels()) {
+      files.set(file.name, file)
+    }
+    return { rows, files }
+  }
+}
+
+function stripMetadata(model: ModelDefinition): ModelDefinition {
+  return Object.fromEntries(
+    Object.entries(model).filter(([key]) => !METADATA_KEYS.includes(key))
+  ) as unknown as ModelDefinition
+}
+
+// Key order differs between the row, the file and the stored versions
+function sameDefinition(a: ModelDefinition, b: ModelDefinition): boolean {
+  return canonicalJson(stripMetadata(a)) === canonicalJson(stripMetadata(b))
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined && item !== null)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+export const modelSync = new ModelSyncService()
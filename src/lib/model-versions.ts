@@ -0,0 +1,113 @@
+import { db } from '@/lib/db'
+import { ModelDefinition } from '@/lib/model-persistence'
+import type { User } from '@/lib/rbac'
+
+// baseline: the definition that was live before versions were kept
+export const modelVersionActions = ['baseline', 'publish', 'rollback'] as const
+
+export type ModelVersionAction = typeof modelVersionActions[number]
+
+export interface ModelVersionInfo {
+  version: number
+  action: ModelVersionAction
+  definition: ModelDefinition
+  // Version copied by a rollback
+  rolledBackFrom: number | null
+  actorId: string | null
+  actorEmail: string | null
+  createdAt: Date
+}
+
+// Written by saveModel, not part of the definition itself
+const METADATA_KEYS = ['createdAt', 'updatedAt']
+
+export class ModelVersionService {
+  /**
+   * Store a definition that just went live as the model's next version. When
+   * the model has no versions yet, the previously published file is kept first.
+   */
+  async capture(
+    definition: ModelDefinition,
+    user: User | null,
+    action: Exclude<ModelVersionAction, 'baseline'>,
+    previous?: ModelDefinition | null,
+    rolledBackFrom?: number
+  ): Promise<number> {
+    let version = await this.latestVersion(definition.name)
+
+    if (version === 0 && previous) {
+      await this.insert(++version, 'baseline', previous, null, null)
+    }
+    await this.insert(++version, action, definition, user, rolledBackFrom ?? null)
+
+    return version
+  }
+
+  /**
+   * Every version of a model, newest first
+   */
+  async list(modelName: string): Promise<ModelVersionInfo[]> {
+    const versions = await db.modelVersion.findMany({
+      where: { model: modelName },
+      orderBy: { version: 'desc' },
+    })
+
+    return versions.map((version: any) => this.toInfo(version))
+  }
+
+  async find(modelName: string, version: number): Promise<ModelVersionInfo | null> {
+    const found = await db.modelVersion.findUnique({
+      where: { model_version: { model: modelName, version } },
+    })
+
+    return found ? this.toInfo(found) : null
+  }
+
+  private async latestVersion(modelName: string): Promise<number> {
+    const latest = await db.modelVersion.findFirst({
+      where: { model: modelName },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    })
+
+    return latest?.version ?? 0
+  }
+
+  private async insert(
+    version: number,
+    action: ModelVersionAction,
+    definition: ModelDefinition,
+    user: User | null,
+    rolledBackFrom: number | null
+  ): Promise<void> {
+    const stored = Object.fromEntries(
+      Object.entries(definition).filter(([key]) => !METADATA_KEYS.includes(key))
+    )
+
+    await db.modelVersion.create({
+      data: {
+        model: definition.name,
+        version,
+        action,
+        definition: JSON.stringify(stored),
+        rolledBackFrom,
+        actorId: user?.id ?? null,
+        actorEmail: user?.email ?? null,
+      },
+    })
+  }
+
+  private toInfo(version: any): ModelVersionInfo {
+    return {
+      version: version.version,
+      action: version.action,
+      definition: JSON.parse(version.definition),
+      rolledBackFrom: version.rolledBackFrom,
+      actorId: version.actorId,
+      actorEmail: version.actorEmail,
+      createdAt: version.createdAt,
+    }
+  }
+}
+
+export const modelVersions = new ModelVersionService()
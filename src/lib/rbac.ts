@@ -1,21 +1,89 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { modelPersistence } from '@/lib/model-persistence'
+import { getServerSession } from 'next-auth'
+import { ApiKeyScope, apiKeys } from '@/lib/api-keys'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { ModelDefinition, modelPersistence } from '@/lib/model-persistence'
+import { RecordData, recordStore, SqlCondition } from '@/lib/record-store'
+import { PolicyAction, PolicyUser, rowPolicies } from '@/lib/row-policy'
+import { roles, SystemPermission } from '@/lib/roles'
 
 export interface User {
   id: string
   email: string
   name?: string
   role: string
+  // Admin roles bypass ownership rules and may manage roles
+  isAdmin: boolean
+  authMethod: 'session' | 'apiKey'
+  // Restrictions of the API key the request was made with
+  scope?: ApiKeyScope | null
+  // Free-form values such as department that row-level policies refer to
+  attributes?: Record<string, unknown>
 }
 
 export interface RBACContext {
   user: User
   modelName: string
-  action: 'create' | 'read' | 'update' | 'delete'
+  action: 'create' | 'read' | 'update' | 'delete' | 'purge'
   resourceId?: string
 }
 
 export class RBACMiddleware {
+  /**
+   * Resolve the user of a request from an `Authorization: Bearer` API key or
+   * the signed-in session, or null when there is neither
+   */
+  async authenticate(request: NextRequest): Promise<User | null> {
+    try {
+      const authorization = request.headers.get('authorization')
+      if (authorization?.startsWith('Bearer ')) {
+        const apiKey = await apiKeys.verify(authorization.slice('Bearer '.length).trim())
+        if (!apiKey) {
+          return null
+        }
+
+        const user = await db.user.findUnique({
+          where: { id: apiKey.userId },
+        })
+        return user ? await this.toUser(user, 'apiKey', apiKey.scope) : null
+      }
+
+      const session = await getServerSession(authOptions)
+      if (!session?.user?.id) {
+        return null
+      }
+
+      // Re-read the user so role changes and deletions apply immediately
+      const user = await db.user.findUnique({
+        where: { id: session.user.id },
+      })
+      return user ? await this.toUser(user, 'session') : null
+    } catch (error) {
+      console.error('Error resolving request user:', error)
+      return null
+    }
+  }
+
+  private async toUser(
+    user: { id: string; email: string; name: string | null; role: string; attributes?: string | null },
+    authMethod: User['authMethod'],
+    scope?: ApiKeyScope | null
+  ): Promise<User> {
+    const role = await roles.findByName(user.role)
+
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name || undefined,
+      role: user.role,
+      isAdmin: !!role?.isAdmin,
+      authMethod,
+      scope,
+      attributes: parseAttributes(user.attributes),
+    }
+  }
+
   /**
    * Check if user has permission to perform action on a model
    */
@@ -23,31 +91,31 @@ export class RBACMiddleware {
     try {
       const { user, modelName, action, resourceId } = context
 
+      // API keys can be narrowed to some models and actions
+      if (user.scope?.models && !user.scope.models.includes(modelName)) {
+        return false
+      }
+      if (user.scope?.actions && !user.scope.actions.includes(action)) {
+        return false
+      }
+
       // Load model definition
       const modelDef = await modelPersistence.loadModel(modelName)
       if (!modelDef) {
         return false
       }
 
-      // Get user permissions for this model
-      const userPermissions = modelDef.rbac[user.role] || []
-      
+      // Get user permissions for this model, including inherited ones
+      const userPermissions = await this.getEffectivePermissions(modelDef, user.role)
+
       // Check if user has the required permission
       if (!userPermissions.includes(action)) {
         return false
       }
 
-      // For update and delete actions, check ownership if ownerField is specified
-      if ((action === 'update' || action === 'delete') && modelDef.ownerField) {
-        // Admin can update/delete any record
-        if (user.role === 'Admin') {
-          return true
-        }
-
-        // For other roles, check ownership
-        if (resourceId) {
-          return await this.checkOwnership(modelName, resourceId, modelDef.ownerField, user.id)
-        }
+      // Check ownership and row-level policies against the stored record
+      if (resourceId && action !== 'create') {
+        return await this.checkRecordAccess(modelDef, resourceId, user, action)
       }
 
       return true
@@ -58,30 +126,150 @@ export class RBACMiddleware {
   }
 
   /**
-   * Check if user owns the resource
+   * Check if user holds a system permission such as model:publish. API keys
+   * narrowed to some models or actions never manage model definitions.
+   */
+  async hasSystemPermission(user: User, permission: SystemPermission): Promise<boolean> {
+    try {
+      if (user.scope?.models || user.scope?.actions) {
+        return false
+      }
+      return (await roles.getSystemPermissions(user.role)).includes(permission)
+    } catch (error) {
+      console.error('Error checking system permission:', error)
+      return false
+    }
+  }
+
+  /**
+   * Actions a role may perform on a model: its own grants plus those of
+   * every role it inherits from
+   */
+  async getEffectivePermissions(modelDef: ModelDefinition, role: string): Promise<string[]> {
+    const permissions = new Set(modelDef.rbac[role] || [])
+
+    for (const ancestor of await roles.getAncestors(role)) {
+      for (const permission of modelDef.rbac[ancestor] || []) {
+        permissions.add(permission)
+      }
+    }
+
+    return Array.from(permissions)
+  }
+
+  /**
+   * Check the stored record against the ownership rule (for writes) and the
+   * row-level policies of the action
    */
-  private async checkOwnership(
-    modelName: string,
+  private async checkRecordAccess(
+    modelDef: ModelDefinition,
     resourceId: string,
-    ownerField: string,
-    userId: string
+    user: User,
+    action: PolicyAction | 'purge'
   ): Promise<boolean> {
     try {
-      // In a real implementation, this would query the database
-      // For now, we'll simulate the check
-      const response = await fetch(`/api/crud/${modelName}?id=${resourceId}`)
-      if (!response.ok) {
+      // Purging works on the trash and is bound by the delete policies
+      const record = await recordStore.findById(modelDef, resourceId, { trash: action === 'purge' })
+      if (!record) {
         return false
       }
-
-      const record = await response.json()
-      return record[ownerField] === userId
+      if (action !== 'read' && !this.ownsRecord(user, modelDef, record)) {
+        return false
+      }
+      return this.passesPolicies(user, modelDef, action === 'purge' ? 'delete' : action, record)
     } catch (error) {
-      console.error('Error checking ownership:', error)
+      console.error('Error checking record access:', error)
       return false
     }
   }
 
+  /**
+   * Whether a user may modify a record under the model's ownership rule.
+   * Admin roles own everything; models without an ownerField have no rule.
+   */
+  ownsRecord(user: User, modelDef: ModelDefinition, record: RecordData): boolean {
+    if (!modelDef.ownerField || user.isAdmin) {
+      return true
+    }
+    return record[modelDef.ownerField] === user.id
+  }
+
+  /**
+   * Whether a stored record satisfies every row-level policy of the user's
+   * role for an action
+   */
+  passesPolicies(user: User, modelDef: ModelDefinition, action: PolicyAction, record: RecordData): boolean {
+    const policies = rowPolicies.getApplicablePolicies(modelDef, user.role, action)
+    return rowPolicies.matches(policies, this.toPolicyUser(user), record)
+  }
+
+  /**
+   * Row-level policies of the user's role as a condition for list queries,
+   * or null when no policy applies
+   */
+  getPolicyFilter(user: User, modelDef: ModelDefinition, action: PolicyAction): SqlCondition | null {
+    const policies = rowPolicies.getApplicablePolicies(modelDef, user.role, action)
+    return rowPolicies.toSql(policies, this.toPolicyUser(user))
+  }
+
+  private toPolicyUser(user: User): PolicyUser {
+    return {
+      ...user.attributes,
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+    }
+  }
+
+  /**
+   * Field-level rules only restrict roles that have an entry on the field
+   */
+  canReadField(user: User, field: ModelDefinition['fields'][number]): boolean {
+    return field.permissions?.[user.role]?.read !== false
+  }
+
+  canWriteField(user: User, field: ModelDefinition['fields'][number]): boolean {
+    return field.permissions?.[user.role]?.write !== false
+  }
+
+  /**
+   * Remove the fields a user may not read from a record
+   */
+  filterReadableFields(user: User, modelDef: ModelDefinition, record: RecordData): RecordData {
+    const filtered = { ...record }
+    for (const field of modelDef.fields) {
+      if (!this.canReadField(user, field)) {
+        delete filtered[field.name]
+      }
+    }
+    return filtered
+  }
+
+  /**
+   * Name of the first field in a write the user is not allowed to set.
+   * When the stored record is given, unchanged values are accepted so
+   * clients can send back whole records.
+   */
+  findForbiddenWrite(
+    user: User,
+    modelDef: ModelDefinition,
+    data: Record<string, any>,
+    existingRecord?: RecordData
+  ): string | null {
+    for (const field of modelDef.fields) {
+      const value = data[field.name]
+      if (value === undefined || this.canWriteField(user, field)) {
+        continue
+      }
+      if (existingRecord && value === existingRecord[field.name]) {
+        continue
+      }
+      return field.name
+    }
+    return null
+  }
+
   /**
    * Middleware function to protect routes
    */
@@ -89,17 +277,17 @@ export class RBACMiddleware {
     request: NextRequest,
     options: {
       modelName: string
-      action: 'create' | 'read' | 'update' | 'delete'
+      action: 'create' | 'read' | 'update' | 'delete' | 'purge'
       getResourceId?: (request: NextRequest) => string | undefined
     }
   ): Promise<NextResponse | null> {
     try {
-      // In a real app, get user from authentication token/session
-      const user: User = {
-        id: 'user-1',
-        email: 'user@example.com',
-        name: 'Demo User',
-        role: 'Admin', // Default to Admin for demo
+      const user = await this.authenticate(request)
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
       }
 
       // Extract resource ID if needed
@@ -132,6 +320,18 @@ export class RBACMiddleware {
   }
 }
 
+function parseAttributes(value?: string | null): Record<string, unknown> {
+  if (!value) {
+    return {}
+  }
+  try {
+    const attributes = JSON.parse(value)
+    return attributes && typeof attributes === 'object' && !Array.isArray(attributes) ? attributes : {}
+  } catch {
+    return {}
+  }
+}
+
 // Helper functions for common middleware patterns
 export const rbac = new RBACMiddleware()
 
@@ -195,7 +395,7 @@ export function withRBAC(
   handler: (request: NextRequest, context?: any) => Promise<NextResponse>,
   options: {
     modelName: string
-    action: 'create' | 'read' | 'update' | 'delete'
+    action: 'create' | 'read' | 'update' | 'delete' | 'purge'
     getResourceId?: (request: NextRequest) => string | undefined
   }
 ) {
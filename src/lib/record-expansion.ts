@@ -0,0 +1,168 @@
+import { modelLifecycle } from '@/lib/model-lifecycle'
+import { ModelDefinition, modelPersistence } from '@/lib/model-persistence'
+import { rbac, User } from '@/lib/rbac'
+import { LinkError, recordLinks, ResolvedLink } from '@/lib/record-links'
+import { QueryError } from '@/lib/record-query'
+import { RecordData, recordStore } from '@/lib/record-store'
+
+type FieldDefinition = ModelDefinition['fields'][number]
+
+// How many levels a single expand path may reach, e.g. customer.company.owner,
+// unless EXPAND_MAX_DEPTH sets another limit
+export const DEFAULT_EXPAND_DEPTH = 3
+
+function getMaxExpandDepth(): number {
+  const depth = Number(process.env.EXPAND_MAX_DEPTH)
+  return Number.isInteger(depth) && depth > 0 ? depth : DEFAULT_EXPAND_DEPTH
+}
+
+/**
+ * One relation field or link to embed, with the expansions to apply to the
+ * embedded records in turn
+ */
+export interface Expansion {
+  name: string
+  // The model of the embedded records
+  model: ModelDefinition
+  field?: FieldDefinition
+  link?: ResolvedLink
+  children: Expansion[]
+}
+
+/**
+ * Embeds related records in CRUD responses, so a client can fetch an order
+ * with its customer in one request. Embedded records are read with the
+ * permissions, row-level policies and field visibility of their own model.
+ */
+export class RecordExpansionService {
+  /**
+   * Parse ?expand=customer,customer.company,tags into a tree of expansions.
+   * Relation fields embed one record and links a list; a link is named as
+   * from its model, so `Student.courses` embeds the students of a course.
+   */
+  async parse(model: ModelDefinition, expand: string | null): Promise<Expansion[]> {
+    const expansions: Expansion[] = []
+    const maxDepth = getMaxExpandDepth()
+
+    for (const path of (expand || '').split(',').map(value => value.trim()).filter(Boolean)) {
+      const segments = path.split('.')
+      let current = model
+      let level = expansions
+      let depth = 0
+
+      while (segments.length > 0) {
+        const expansion = await this.resolve(current, segments, path)
+        depth++
+        if (depth > maxDepth) {
+          throw new QueryError(`Expand path '${path}' is deeper than ${maxDepth} ${maxDepth === 1 ? 'level' : 'levels'}`)
+        }
+
+        const existing = level.find(candidate => candidate.name === expansion.name)
+        if (!existing) {
+          level.push(expansion)
+        }
+        current = expansion.model
+        level = (existing || expansion).children
+      }
+    }
+
+    return expansions
+  }
+
+  /**
+   * Describe why the user may not read what the expansions embed, or null
+   * when every embedded model and relation field is readable
+   */
+  async findForbidden(user: User, model: ModelDefinition, expansions: Expansion[]): Promise<string | null> {
+    for (const expansion of expansions) {
+      // The relation field itself holds the id that is expanded
+      if (expansion.field && !rbac.canReadField(user, expansion.field)) {
+        return `Field '${expansion.field.name}' is not readable for your role`
+      }
+      if (!(await rbac.checkPermission({ user, modelName: expansion.model.name, action: 'read' }))) {
+        return `Cannot expand '${expansion.name}' of ${model.name}; you cannot read ${expansion.model.name} records`
+      }
+
+      const forbidden = await this.findForbidden(user, expansion.model, expansion.children)
+      if (forbidden) {
+        return forbidden
+      }
+    }
+    return null
+  }
+
+  /**
+   * Embed the expansions in records that have been filtered for the user.
+   * A relation field is replaced by the related record, or keeps its id when
+   * that record is missing or hidden by a row-level policy; a link becomes a
+   * list of the linked records the user may read.
+   */
+  async expand(user: User, records: RecordData[], expansions: Expansion[]): Promise<void> {
+    if (records.length === 0) {
+      return
+    }
+
+    for (const expansion of expansions) {
+      const { model, field, link } = expansion
+      const linkedIds = link ? await recordLinks.linkedIds(link, records.map(record => record.id)) : null
+      const ids = linkedIds
+        ? [...linkedIds.values()].flat()
+        : records.map(record => record[field!.name]).filter(value => typeof value === 'string' && value !== '')
+
+      const related = await recordStore.findByIds(model, [...new Set(ids)], rbac.getPolicyFilter(user, model, 'read'))
+      const embedded = new Map(related.map(record => [record.id, rbac.filterReadableFields(user, model, record)]))
+
+      for (const record of records) {
+        if (linkedIds) {
+          record[expansion.name] = (linkedIds.get(record.id) || [])
+            .filter(id => embedded.has(id))
+            .map(id => embedded.get(id)!)
+        } else if (embedded.has(record[field!.name])) {
+          record[field!.name] = embedded.get(record[field!.name])
+        }
+      }
+
+      await this.expand(user, [...embedded.values()], expansion.children)
+    }
+  }
+
+  // Consume the relation field or link the path starts with
+  private async resolve(model: ModelDefinition, segments: string[], path: string): Promise<Expansion> {
+    const name = segments.shift()!
+
+    const field = model.fields.find(candidate => candidate.name === name)
+    if (field?.type === 'relation') {
+      const related = await modelPersistence.loadModel(field.relation!)
+      if (!related) {
+        throw new QueryError(`Cannot expand '${name}'; ${field.relation} is not published`)
+      }
+      if ((await modelLifecycle.findState(related.name))?.status === 'archived') {
+        throw new QueryError(`Cannot expand '${name}'; ${related.name} has been archived`)
+      }
+      return { name, model: related, field, children: [] }
+    }
+
+    // Links of other models are named Owner.link, which spans two segments
+    const linkName = model.links?.some(candidate => candidate.name === name) || segments.length === 0
+      ? name
+      : `${name}.${segments[0]}`
+    try {
+      const link = await recordLinks.resolve(model, linkName)
+      if (linkName !== name) {
+        segments.shift()
+      }
+      return { name: linkName, model: link.target, link, children: [] }
+    } catch (error) {
+      if (error instanceof LinkError) {
+        // A known link whose records cannot be served, e.g. of an archived model
+        if ((await recordLinks.linkNames(model)).includes(linkName)) {
+          throw new QueryError(`Cannot expand '${linkName}'; ${error.message}`)
+        }
+        throw new QueryError(`Cannot expand '${name}' in '${path}'; it is neither a relation field nor a link of ${model.name}`)
+      }
+      throw error
+    }
+  }
+}
+
+export const recordExpansion = new RecordExpansionService()
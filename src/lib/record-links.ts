@@ -0,0 +1,153 @@
+import { recordsDb } from '@/lib/db'
+import { modelLifecycle } from '@/lib/model-lifecycle'
+import { ModelDefinition, ModelLink, modelPersistence } from '@/lib/model-persistence'
+import { SqlCondition } from '@/lib/record-store'
+import { quoteIdentifier, schemaManager } from '@/lib/schema-manager'
+
+// Keeps IN lists below SQLite's limit on bound parameters
+const ID_BATCH_SIZE = 500
+
+/**
+ * A link as seen from one of its models. From the declaring model a link is
+ * named as declared (`courses`); from the linked model it is named after the
+ * declaring model (`Student.courses`).
+ */
+export interface ResolvedLink {
+  name: string
+  // The model declaring the link, which owns the join table
+  owner: ModelDefinition
+  link: ModelLink
+  // The model whose records are listed, attached and detached
+  target: ModelDefinition
+  reverse: boolean
+}
+
+/**
+ * Raised when a link name does not match a link of the model
+ */
+export class LinkError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LinkError'
+  }
+}
+
+/**
+ * Many-to-many links between published models, stored as pairs of record ids
+ * in one join table per declared link
+ */
+export class RecordLinkService {
+  /**
+   * Names of every link a model takes part in, declared ones first
+   */
+  async linkNames(model: ModelDefinition): Promise<string[]> {
+    const names = (model.links || []).map(link => link.name)
+    for (const owner of await modelPersistence.loadAllModels()) {
+      for (const link of owner.links || []) {
+        if (link.model === model.name) {
+          names.push(`${owner.name}.${link.name}`)
+        }
+      }
+    }
+    return names
+  }
+
+  /**
+   * Look a link up by the name it has from the given model
+   */
+  async resolve(model: ModelDefinition, name: string): Promise<ResolvedLink> {
+    const [ownerName, linkName] = name.includes('.') ? name.split('.', 2) : [model.name, name]
+    const owner = ownerName === model.name ? model : await modelPersistence.loadModel(ownerName)
+    const link = owner?.links?.find(candidate => candidate.name === linkName)
+    // A self-link read as Model.link from its own model is the reverse direction
+    const reverse = name.includes('.')
+
+    if (!owner || !link || (reverse && link.model !== model.name)) {
+      const available = await this.linkNames(model)
+      throw new LinkError(
+        `Unknown link '${name}'${available.length > 0 ? `; ${model.name} has ${available.join(', ')}` : ''}`
+      )
+    }
+
+    const target = reverse ? owner : await modelPersistence.loadModel(link.model)
+    if (!target) {
+      throw new LinkError(`Link '${name}' points at ${link.model}, which is not published`)
+    }
+    // Archived models answer 410 Gone, so their records are not served through links either
+    if ((await modelLifecycle.findState(target.name))?.status === 'archived') {
+      throw new LinkError(`Link '${name}' points at ${target.name}, which has been archived`)
+    }
+
+    return { name, owner, link, target, reverse }
+  }
+
+  /**
+   * Condition selecting the target records linked to a record
+   */
+  async linkedCondition(resolved: ResolvedLink, id: string): Promise<SqlCondition> {
+    const table = quoteIdentifier(await schemaManager.ensureLinkTable(resolved.owner, resolved.link.name))
+    const [from, to] = this.columns(resolved)
+    return {
+      clause: `${quoteIdentifier('id')} IN (SELECT ${quoteIdentifier(to)} FROM ${table} WHERE ${quoteIdentifier(from)} = ?)`,
+      params: [id],
+    }
+  }
+
+  /**
+   * Ids of the records linked to each of the given records, oldest link first
+   */
+  async linkedIds(resolved: ResolvedLink, ids: string[]): Promise<Map<string, string[]>> {
+    const table = quoteIdentifier(await schemaManager.ensureLinkTable(resolved.owner, resolved.link.name))
+    const [from, to] = this.columns(resolved)
+    const linked = new Map<string, string[]>()
+
+    for (let start = 0; start < ids.length; start += ID_BATCH_SIZE) {
+      const batch = ids.slice(start, start + ID_BATCH_SIZE)
+      const rows = await recordsDb.$queryRawUnsafe<{ id: string; linkedId: string }[]>(
+        `SELECT ${quoteIdentifier(from)} AS id, ${quoteIdentifier(to)} AS linkedId FROM ${table} WHERE ${quoteIdentifier(from)} IN (${batch.map(() => '?').join(', ')}) ORDER BY ${quoteIdentifier('createdAt')}`,
+        ...batch
+      )
+      for (const row of rows) {
+        linked.set(row.id, [...(linked.get(row.id) || []), row.linkedId])
+      }
+    }
+
+    return linked
+  }
+
+  /**
+   * Link two records; returns false when they were linked already
+   */
+  async attach(resolved: ResolvedLink, id: string, targetId: string): Promise<boolean> {
+    const table = quoteIdentifier(await schemaManager.ensureLinkTable(resolved.owner, resolved.link.name))
+    const [from, to] = this.columns(resolved)
+    const affected = await recordsDb.$executeRawUnsafe(
+      `INSERT OR IGNORE INTO ${table} (${quoteIdentifier(from)}, ${quoteIdentifier(to)}, ${quoteIdentifier('createdAt')}) VALUES (?, ?, ?)`,
+      id,
+      targetId,
+      new Date().toISOString()
+    )
+    return affected > 0
+  }
+
+  /**
+   * Unlink two records; returns false when they were not linked
+   */
+  async detach(resolved: ResolvedLink, id: string, targetId: string): Promise<boolean> {
+    const table = quoteIdentifier(await schemaManager.ensureLinkTable(resolved.owner, resolved.link.name))
+    const [from, to] = this.columns(resolved)
+    const affected = await recordsDb.$executeRawUnsafe(
+      `DELETE FROM ${table} WHERE ${quoteIdentifier(from)} = ? AND ${quoteIdentifier(to)} = ?`,
+      id,
+      targetId
+    )
+    return affected > 0
+  }
+
+  // Join table columns holding the record the link is read from, and the other side
+  private columns(resolved: ResolvedLink): [string, string] {
+    return resolved.reverse ? ['targetId', 'sourceId'] : ['sourceId', 'targetId']
+  }
+}
+
+export const recordLinks = new RecordLinkService()
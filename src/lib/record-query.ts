@@ -0,0 +1,238 @@
+import { isDateOnly } from '@/lib/field-formats'
+import { ModelDefinition } from '@/lib/model-persistence'
+
+type FieldType = ModelDefinition['fields'][number]['type']
+
+export const filterOperators = ['eq', 'ne', 'gt', 'lt', 'in', 'contains', 'isNull'] as const
+
+export type FilterOperator = typeof filterOperators[number]
+
+export interface RecordFilter {
+  field: string
+  operator: FilterOperator
+  value: unknown
+}
+
+export interface RecordSort {
+  field: string
+  direction: 'asc' | 'desc'
+}
+
+export interface RecordQuery {
+  filters: RecordFilter[]
+  sort: RecordSort[]
+  limit: number
+  offset: number
+  // Values of the sort fields (and id) of the last record on the previous page
+  cursor?: unknown[]
+}
+
+export const DEFAULT_PAGE_SIZE = 50
+export const MAX_PAGE_SIZE = 500
+
+// Field types the contains operator searches
+const TEXT_TYPES = new Set<FieldType>(['string', 'text', 'email', 'url', 'json'])
+
+// Query parameters that are not field filters; expand is parsed by record-expansion
+const RESERVED_PARAMS = new Set(['id', 'sort', 'limit', 'offset', 'cursor', 'expand'])
+
+/**
+ * Raised when a query string does not match the model definition
+ */
+export class QueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'QueryError'
+  }
+}
+
+/**
+ * Fields that can be filtered and sorted on, including the system columns
+ */
+export function getQueryableFields(model: ModelDefinition): Record<string, FieldType> {
+  const fields: Record<string, FieldType> = { id: 'string' }
+
+  for (const field of model.fields) {
+    fields[field.name] = field.type
+  }
+
+  if (model.ownerField && !fields[model.ownerField]) {
+    fields[model.ownerField] = 'string'
+  }
+
+  fields.createdAt = 'date'
+  fields.updatedAt = 'date'
+  if (model.softDelete) {
+    fields.deletedAt = 'date'
+  }
+  return fields
+}
+
+export function encodeCursor(values: unknown[]): string {
+  return Buffer.from(JSON.stringify(values)).toString('base64url')
+}
+
+function decodeCursor(cursor: string, length: number): unknown[] {
+  try {
+    const values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'))
+    if (Array.isArray(values) && values.length === length) {
+      return values
+    }
+  } catch {}
+  throw new QueryError('Invalid cursor')
+}
+
+function parseValue(field: string, type: FieldType, raw: string): unknown {
+  switch (type) {
+    case 'number':
+    case 'decimal': {
+      const number = Number(raw)
+      if (raw.trim() === '' || Number.isNaN(number)) {
+        throw new QueryError(`Filter value for '${field}' must be a number`)
+      }
+      return number
+    }
+    case 'integer': {
+      const number = Number(raw)
+      if (raw.trim() === '' || !Number.isSafeInteger(number)) {
+        throw new QueryError(`Filter value for '${field}' must be a whole number`)
+      }
+      return number
+    }
+    case 'boolean':
+      if (raw !== 'true' && raw !== 'false') {
+        throw new QueryError(`Filter value for '${field}' must be true or false`)
+      }
+      return raw === 'true' ? 1 : 0
+    case 'date': {
+      const date = new Date(raw)
+      if (Number.isNaN(date.getTime())) {
+        throw new QueryError(`Filter value for '${field}' must be a valid date`)
+      }
+      return date.toISOString()
+    }
+    case 'dateOnly':
+      if (!isDateOnly(raw)) {
+        throw new QueryError(`Filter value for '${field}' must be a date as YYYY-MM-DD`)
+      }
+      return raw
+    default:
+      return raw
+  }
+}
+
+/**
+ * Parse the list query of GET /api/crud/<modelName>:
+ *
+ *   ?status=active                 equality shorthand
+ *   ?age[gt]=18&age[lt]=65         eq, ne, gt, lt, in, contains, isNull
+ *   ?role[in]=admin,editor
+ *   ?sort=-createdAt,name          "-" sorts descending
+ *   ?limit=20&offset=40            offset pagination
+ *   ?limit=20&cursor=<nextCursor>  cursor pagination
+ */
+export function parseRecordQuery(model: ModelDefinition, searchParams: URLSearchParams): RecordQuery {
+  const fields = getQueryableFields(model)
+  const query: RecordQuery = {
+    filters: [],
+    sort: [],
+    limit: DEFAULT_PAGE_SIZE,
+    offset: 0,
+  }
+
+  for (const [key, raw] of searchParams.entries()) {
+    if (RESERVED_PARAMS.has(key)) {
+      continue
+    }
+
+    const match = key.match(/^([^[\]]+)(?:\[([^[\]]+)\])?$/)
+    if (!match) {
+      throw new QueryError(`Invalid query parameter '${key}'`)
+    }
+
+    const [, field, operatorName = 'eq'] = match
+    const type = fields[field]
+    if (!type) {
+      throw new QueryError(`Unknown field '${field}'`)
+    }
+    if (!(filterOperators as readonly string[]).includes(operatorName)) {
+      throw new QueryError(`Unknown operator '${operatorName}' for field '${field}'`)
+    }
+
+    const operator = operatorName as FilterOperator
+    switch (operator) {
+      case 'isNull':
+        if (raw !== 'true' && raw !== 'false') {
+          throw new QueryError(`Filter value for '${field}[isNull]' must be true or false`)
+        }
+        query.filters.push({ field, operator, value: raw === 'true' })
+        break
+      case 'in':
+        query.filters.push({
+          field,
+          operator,
+          value: raw.split(',').map(value => parseValue(field, type, value)),
+        })
+        break
+      case 'contains':
+        if (!TEXT_TYPES.has(type)) {
+          throw new QueryError(`Operator 'contains' is not supported for ${type} field '${field}'`)
+        }
+        query.filters.push({ field, operator, value: raw })
+        break
+      case 'gt':
+      case 'lt':
+        if (type === 'boolean' || type === 'json') {
+          throw new QueryError(`Operator '${operator}' is not supported for ${type} field '${field}'`)
+        }
+        query.filters.push({ field, operator, value: parseValue(field, type, raw) })
+        break
+      default:
+        query.filters.push({ field, operator, value: parseValue(field, type, raw) })
+    }
+  }
+
+  const sort = searchParams.get('sort')
+  for (const part of (sort || '-createdAt').split(',').map(value => value.trim()).filter(Boolean)) {
+    const direction = part.startsWith('-') ? 'desc' : 'asc'
+    const field = part.replace(/^[-+]/, '')
+    if (!fields[field]) {
+      throw new QueryError(`Unknown sort field '${field}'`)
+    }
+    query.sort.push({ field, direction })
+  }
+
+  // id breaks ties so every record has a stable position for cursors
+  if (!query.sort.some(sortField => sortField.field === 'id')) {
+    query.sort.push({ field: 'id', direction: query.sort[query.sort.length - 1]?.direction || 'asc' })
+  }
+
+  const limit = searchParams.get('limit')
+  if (limit !== null) {
+    const value = Number(limit)
+    if (!Number.isInteger(value) || value < 1 || value > MAX_PAGE_SIZE) {
+      throw new QueryError(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`)
+    }
+    query.limit = value
+  }
+
+  const offset = searchParams.get('offset')
+  const cursor = searchParams.get('cursor')
+  if (offset !== null && cursor !== null) {
+    throw new QueryError('Use either offset or cursor, not both')
+  }
+
+  if (offset !== null) {
+    const value = Number(offset)
+    if (!Number.isInteger(value) || value < 0) {
+      throw new QueryError('offset must be a non-negative integer')
+    }
+    query.offset = value
+  }
+
+  if (cursor !== null) {
+    query.cursor = decodeCursor(cursor, query.sort.length)
+  }
+
+  return query
+}
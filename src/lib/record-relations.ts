@@ -0,0 +1,197 @@
+import { auditLog } from '@/lib/audit'
+import { ModelDefinition, modelPersistence } from '@/lib/model-persistence'
+import { ModelValidationError, ModelValidationIssue } from '@/lib/model-schema'
+import type { User } from '@/lib/rbac'
+import { RecordData, recordStore, RecordValidationError } from '@/lib/record-store'
+import { recordVersions } from '@/lib/record-versions'
+
+type FieldDefinition = ModelDefinition['fields'][number]
+
+/**
+ * A relation field of a published model pointing at another model
+ */
+export interface RelationReference {
+  model: ModelDefinition
+  field: FieldDefinition
+}
+
+/**
+ * A change a delete makes to a referencing record: cascade deletes it,
+ * setNull clears its relation field
+ */
+export interface RelationEffect {
+  model: ModelDefinition
+  field: string
+  record: RecordData
+  action: 'cascade' | 'setNull'
+}
+
+/**
+ * Raised when a restrict relation still references the record being deleted
+ */
+export class RelationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RelationError'
+  }
+}
+
+/**
+ * Referential integrity between published models. A relation field holds the
+ * id of a live record of its related model; references are checked on write
+ * and the on-delete action of each field runs when the related record is
+ * deleted or moved to the trash.
+ */
+export class RecordRelationService {
+  /**
+   * Relation fields of published models that point at the given model,
+   * including the model's own self-references
+   */
+  async findReferences(modelName: string): Promise<RelationReference[]> {
+    const references: RelationReference[] = []
+    for (const model of await modelPersistence.loadAllModels()) {
+      for (const field of model.fields) {
+        if (field.type === 'relation' && field.relation === modelName) {
+          references.push({ model, field })
+        }
+      }
+    }
+    return references
+  }
+
+  /**
+   * Relation fields and links of other models that would dangle if the model
+   * went offline, as Model.field
+   */
+  async findDependents(modelName: string): Promise<string[]> {
+    const dependents: string[] = []
+    for (const model of await modelPersistence.loadAllModels()) {
+      if (model.name === modelName) {
+        continue
+      }
+      for (const field of model.fields) {
+        if (field.type === 'relation' && field.relation === modelName) {
+          dependents.push(`${model.name}.${field.name}`)
+        }
+      }
+      for (const link of model.links || []) {
+        if (link.model === modelName) {
+          dependents.push(`${model.name}.${link.name}`)
+        }
+      }
+    }
+    return dependents
+  }
+
+  /**
+   * Check that every relation and link of a definition about to be published
+   * points at a published model or at the model itself
+   */
+  async validateDefinition(model: ModelDefinition): Promise<void> {
+    const issues: ModelValidationIssue[] = []
+    const isPublished = async (name: string) => name === model.name || modelPersistence.modelExists(name)
+
+    for (const [index, field] of model.fields.entries()) {
+      if (field.type === 'relation' && field.relation && !(await isPublished(field.relation))) {
+        issues.push({ path: `fields[${index}].relation`, message: `${field.relation} is not a published model` })
+      }
+    }
+    for (const [index, link] of (model.links || []).entries()) {
+      if (!(await isPublished(link.model))) {
+        issues.push({ path: `links[${index}].model`, message: `${link.model} is not a published model` })
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new ModelValidationError(issues)
+    }
+  }
+
+  /**
+   * Reject relation values that do not name a live record of the related model
+   */
+  async validateReferences(model: ModelDefinition, data: Record<string, any>): Promise<void> {
+    for (const field of model.fields) {
+      const value = data[field.name]
+      if (field.type !== 'relation' || value === undefined || value === null || value === '') {
+        continue
+      }
+
+      const related = await modelPersistence.loadModel(field.relation!)
+      if (!related) {
+        throw new RecordValidationError(`Field '${field.name}' relates to ${field.relation}, which is not published`)
+      }
+      if (!(await recordStore.findById(related, String(value)))) {
+        throw new RecordValidationError(`Field '${field.name}' references a ${field.relation} record that does not exist`)
+      }
+    }
+  }
+
+  /**
+   * Work out what deleting a record does to the records referencing it,
+   * following cascades. Throws a RelationError when a restrict relation
+   * blocks the delete; nothing has been changed at that point.
+   */
+  async planDelete(
+    model: ModelDefinition,
+    id: string,
+    visited: Set<string> = new Set()
+  ): Promise<RelationEffect[]> {
+    visited.add(`${model.name}:${id}`)
+    const effects: RelationEffect[] = []
+
+    for (const { model: source, field } of await this.findReferences(model.name)) {
+      const records = (await recordStore.findByField(source, field.name, id))
+        .filter(record => !visited.has(`${source.name}:${record.id}`))
+      if (records.length === 0) {
+        continue
+      }
+
+      switch (field.onDelete ?? 'restrict') {
+        case 'restrict':
+          throw new RelationError(
+            `This record is still referenced by ${records.length} ${source.name} record${records.length === 1 ? '' : 's'} through '${field.name}'`
+          )
+        case 'cascade':
+          for (const record of records) {
+            effects.push({ model: source, field: field.name, record, action: 'cascade' })
+            effects.push(...await this.planDelete(source, record.id, visited))
+          }
+          break
+        case 'setNull':
+          for (const record of records) {
+            effects.push({ model: source, field: field.name, record, action: 'setNull' })
+          }
+          break
+      }
+    }
+
+    return effects
+  }
+
+  /**
+   * Apply a delete plan once the record itself is deleted. Every change is
+   * audited like a write by the user who deleted the record.
+   */
+  async applyDelete(effects: RelationEffect[], user: User): Promise<void> {
+    for (const effect of effects) {
+      const { model, record } = effect
+
+      if (effect.action === 'cascade') {
+        if (await recordStore.delete(model, record.id)) {
+          await auditLog.record(user, { entity: 'record', model: model.name, recordId: record.id, action: 'delete', before: record })
+        }
+        continue
+      }
+
+      // Nothing to clear when a cascade already deleted the record
+      const updated = await recordStore.update(model, record.id, { [effect.field]: null })
+      if (updated) {
+        await auditLog.record(user, { entity: 'record', model: model.name, recordId: record.id, action: 'update', before: record, after: updated })
+        await recordVersions.capture(model, user, 'update', updated, record)
+      }
+    }
+  }
+}
+
+export const recordRelations = new RecordRelationService()
@@ -0,0 +1,574 @@
+import { randomUUID } from 'crypto'
+import { recordsDb } from '@/lib/db'
+import { ModelDefinition, modelPersistence } from '@/lib/model-persistence'
+import { encodeCursor, RecordFilter, RecordQuery, RecordSort } from '@/lib/record-query'
+import { validateRecord } from '@/lib/record-validation'
+import { quoteIdentifier, schemaManager } from '@/lib/schema-manager'
+
+type FieldDefinition = ModelDefinition['fields'][number]
+
+// SQLite allows at most 32766 bound parameters per statement
+const ID_BATCH_SIZE = 500
+
+export interface RecordData {
+  id: string
+  [key: string]: any
+}
+
+/**
+ * Extra WHERE condition with positional parameters, e.g. from row-level policies
+ */
+export interface SqlCondition {
+  clause: string
+  params: unknown[]
+}
+
+/**
+ * Which records of a soft-delete model to read: live ones (the default) or
+ * the trash. Models without soft delete have no trash.
+ */
+export interface RecordScope {
+  trash?: boolean
+}
+
+export interface RecordPage {
+  records: RecordData[]
+  total: number
+  nextCursor: string | null
+}
+
+/**
+ * Raised when a value cannot be stored in the column of its field
+ */
+export class RecordValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RecordValidationError'
+  }
+}
+
+/**
+ * Raised when a write would break a UNIQUE constraint of the table
+ */
+export class RecordConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RecordConflictError'
+  }
+}
+
+export class RecordStore {
+  async findMany(
+    model: ModelDefinition,
+    query: RecordQuery,
+    restriction?: SqlCondition | null,
+    scope: RecordScope = {}
+  ): Promise<RecordPage> {
+    await schemaManager.ensureTable(model)
+
+    const table = quoteIdentifier(modelPersistence.getTableName(model))
+    const filter = this.buildFilterSql(query.filters)
+    const trashClause = this.getTrashClause(model, scope)
+    if (trashClause) {
+      filter.clauses.push(trashClause)
+    }
+    if (restriction) {
+      filter.clauses.push(`(${restriction.clause})`)
+      filter.params.push(...restriction.params)
+    }
+    const where = filter.clauses.length > 0 ? `WHERE ${filter.clauses.join(' AND ')}` : ''
+
+    const [{ total }] = await recordsDb.$queryRawUnsafe<{ total: number | bigint }[]>(
+      `SELECT COUNT(*) AS total FROM ${table} ${where}`,
+      ...filter.params
+    )
+
+    const clauses = [...filter.clauses]
+    const params = [...filter.params]
+    if (query.cursor) {
+      const cursor = this.buildCursorSql(query.sort, query.cursor)
+      clauses.push(cursor.clause)
+      params.push(...cursor.params)
+    }
+
+    const orderBy = query.sort
+      .map(sort => `${quoteIdentifier(sort.field)} ${sort.direction === 'desc' ? 'DESC' : 'ASC'}`)
+      .join(', ')
+
+    // Fetch one extra row to know whether another page follows
+    const rows = await recordsDb.$queryRawUnsafe<Record<string, unknown>[]>(
+      `SELECT * FROM ${table} ${clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''} ORDER BY ${orderBy} LIMIT ? OFFSET ?`,
+      ...params,
+      query.limit + 1,
+      query.cursor ? 0 : query.offset
+    )
+
+    const hasMore = rows.length > query.limit
+    const pageRows = rows.slice(0, query.limit)
+    const lastRow = pageRows[pageRows.length - 1]
+
+    return {
+      records: pageRows.map(row => this.fromRow(model, row)),
+      total: Number(total),
+      nextCursor: hasMore && lastRow
+        ? encodeCursor(query.sort.map(sort => {
+            const value = lastRow[sort.field] ?? null
+            return typeof value === 'bigint' ? Number(value) : value
+          }))
+        : null,
+    }
+  }
+
+  async findById(model: ModelDefinition, id: string, scope: RecordScope = {}): Promise<RecordData | null> {
+    await schemaManager.ensureTable(model)
+
+    const table = quoteIdentifier(modelPersistence.getTableName(model))
+    const trashClause = this.getTrashClause(model, scope)
+    const rows = await recordsDb.$queryRawUnsafe<Record<string, unknown>[]>(
+      `SELECT * FROM ${table} WHERE ${quoteIdentifier('id')} = ?${trashClause ? ` AND ${trashClause}` : ''} LIMIT 1`,
+      id
+    )
+
+    return rows.length > 0 ? this.fromRow(model, rows[0]) : null
+  }
+
+  async create(model: ModelDefinition, data: Record<string, any>): Promise<RecordData> {
+    this.assertValid(model, data, false)
+    await schemaManager.ensureTable(model)
+
+    const now = new Date().toISOString()
+    const values: Record<string, unknown> = {
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    // Omitted fields are left out of the INSERT so column defaults apply
+    for (const field of model.fields) {
+      if (data[field.name] !== undefined) {
+        values[field.name] = this.toColumnValue(field, data[field.name])
+      }
+    }
+
+    if (this.hasSeparateOwnerColumn(model) && data[model.ownerField!] !== undefined) {
+      values[model.ownerField!] = data[model.ownerField!] === null ? null : String(data[model.ownerField!])
+    }
+
+    const columns = Object.keys(values)
+    const table = quoteIdentifier(modelPersistence.getTableName(model))
+    await this.execute(
+      `INSERT INTO ${table} (${columns.map(quoteIdentifier).join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+      ...columns.map(column => values[column])
+    )
+
+    return (await this.findById(model, values.id as string))!
+  }
+
+  async update(
+    model: ModelDefinition,
+    id: string,
+    data: Record<string, any>
+  ): Promise<RecordData | null> {
+    // Fields left out of an update keep their value and are not checked
+    this.assertValid(model, data, true)
+    await schemaManager.ensureTable(model)
+
+    const values: Record<string, unknown> = {}
+
+    for (const field of model.fields) {
+      if (data[field.name] !== undefined) {
+        values[field.name] = this.toColumnValue(field, data[field.name])
+      }
+    }
+
+    if (this.hasSeparateOwnerColumn(model) && data[model.ownerField!] !== undefined) {
+      values[model.ownerField!] = data[model.ownerField!] === null ? null : String(data[model.ownerField!])
+    }
+
+    values.updatedAt = new Date().toISOString()
+
+    const columns = Object.keys(values)
+    const table = quoteIdentifier(modelPersistence.getTableName(model))
+    const trashClause = this.getTrashClause(model, {})
+    const affected = await this.execute(
+      `UPDATE ${table} SET ${columns.map(column => `${quoteIdentifier(column)} = ?`).join(', ')} WHERE ${quoteIdentifier('id')} = ?${trashClause ? ` AND ${trashClause}` : ''}`,
+      ...columns.map(column => values[column]),
+      id
+    )
+
+    if (affected === 0) {
+      return null
+    }
+
+    return this.findById(model, id)
+  }
+
+  /**
+   * Live records whose field holds the given value, e.g. the records that
+   * reference another record through a relation field
+   */
+  async findByField(model: ModelDefinition, fieldName: string, value: unknown): Promise<RecordData[]> {
+    await schemaManager.ensureTable(model)
+
+    const table = quoteIdentifier(modelPersistence.getTableName(model))
+    const trashClause = this.getTrashClause(model, {})
+    const rows = await recordsDb.$queryRawUnsafe<Record<string, unknown>[]>(
+      `SELECT * FROM ${table} WHERE ${quoteIdentifier(fieldName)} = ?${trashClause ? ` AND ${trashClause}` : ''}`,
+      value
+    )
+
+    return rows.map(row => this.fromRow(model, row))
+  }
+
+  /**
+   * Live records with the given ids that pass the restriction, in no
+   * particular order; ids of missing records are skipped
+   */
+  async findByIds(model: ModelDefinition, ids: string[], restriction?: SqlCondition | null): Promise<RecordData[]> {
+    await schemaManager.ensureTable(model)
+
+    const table = quoteIdentifier(modelPersistence.getTableName(model))
+    const trashClause = this.getTrashClause(model, {})
+    const records: RecordData[] = []
+
+    for (let start = 0; start < ids.length; start += ID_BATCH_SIZE) {
+      const batch = ids.slice(start, start + ID_BATCH_SIZE)
+      const clauses = [`${quoteIdentifier('id')} IN (${batch.map(() => '?').join(', ')})`]
+      if (trashClause) {
+        clauses.push(trashClause)
+      }
+      if (restriction) {
+        clauses.push(`(${restriction.clause})`)
+      }
+
+      const rows = await recordsDb.$queryRawUnsafe<Record<string, unknown>[]>(
+        `SELECT * FROM ${table} WHERE ${clauses.join(' AND ')}`,
+        ...batch,
+        ...(restriction?.params ?? [])
+      )
+      records.push(...rows.map(row => this.fromRow(model, row)))
+    }
+
+    return records
+  }
+
+  /**
+   * Delete a record, or move it to the trash when the model uses soft delete
+   */
+  async delete(model: ModelDefinition, id: string): Promise<boolean> {
+    await schemaManager.ensureTable(model)
+
+    const table = quoteIdentifier(modelPersistence.getTableName(model))
+    const affected = model.softDelete
+      ? await recordsDb.$executeRawUnsafe(
+          `UPDATE ${table} SET ${quoteIdentifier('deletedAt')} = ? WHERE ${quoteIdentifier('id')} = ? AND ${quoteIdentifier('deletedAt')} IS NULL`,
+          new Date().toISOString(),
+          id
+        )
+      : await recordsDb.$executeRawUnsafe(
+          `DELETE FROM ${table} WHERE ${quoteIdentifier('id')} = ?`,
+          id
+        )
+
+    // Trashed records keep their links so a restore brings them back
+    if (affected > 0 && !model.softDelete) {
+      await this.deleteLinks(model, [id])
+    }
+    return affected > 0
+  }
+
+  /**
+   * Move a record out of the trash
+   */
+  async restore(model: ModelDefinition, id: string): Promise<RecordData | null> {
+    await schemaManager.ensureTable(model)
+
+    const table = quoteIdentifier(modelPersistence.getTableName(model))
+    const affected = await recordsDb.$executeRawUnsafe(
+      `UPDATE ${table} SET ${quoteIdentifier('deletedAt')} = NULL, ${quoteIdentifier('updatedAt')} = ? WHERE ${quoteIdentifier('id')} = ? AND ${quoteIdentifier('deletedAt')} IS NOT NULL`,
+      new Date().toISOString(),
+      id
+    )
+
+    return affected > 0 ? this.findById(model, id) : null
+  }
+
+  /**
+   * Permanently remove a record from the trash
+   */
+  async purge(model: ModelDefinition, id: string): Promise<boolean> {
+    await schemaManager.ensureTable(model)
+
+    const table = quoteIdentifier(modelPersistence.getTableName(model))
+    const affected = await recordsDb.$executeRawUnsafe(
+      `DELETE FROM ${table} WHERE ${quoteIdentifier('id')} = ? AND ${quoteIdentifier('deletedAt')} IS NOT NULL`,
+      id
+    )
+
+    if (affected > 0) {
+      await this.deleteLinks(model, [id])
+    }
+    return affected > 0
+  }
+
+  /**
+   * Permanently remove the records that went to the trash before a point in
+   * time and return their ids
+   */
+  async purgeDeletedBefore(model: ModelDefinition, before: Date): Promise<string[]> {
+    await schemaManager.ensureTable(model)
+
+    const table = quoteIdentifier(modelPersistence.getTableName(model))
+    const rows = await recordsDb.$queryRawUnsafe<{ id: string }[]>(
+      `SELECT ${quoteIdentifier('id')} FROM ${table} WHERE ${quoteIdentifier('deletedAt')} < ?`,
+      before.toISOString()
+    )
+    const ids = rows.map(row => String(row.id))
+    for (let start = 0; start < ids.length; start += ID_BATCH_SIZE) {
+      const batch = ids.slice(start, start + ID_BATCH_SIZE)
+      await recordsDb.$executeRawUnsafe(
+        `DELETE FROM ${table} WHERE ${quoteIdentifier('id')} IN (${batch.map(() => '?').join(', ')})`,
+        ...batch
+      )
+    }
+    if (ids.length > 0) {
+      await this.deleteLinks(model, ids)
+    }
+
+    return ids
+  }
+
+  /**
+   * Remove the many-to-many links of removed records, on either side of the
+   * link
+   */
+  private async deleteLinks(model: ModelDefinition, ids: string[]): Promise<void> {
+    for (const owner of await modelPersistence.loadAllModels()) {
+      for (const link of owner.links || []) {
+        const columns = [
+          ...(owner.name === model.name ? ['sourceId'] : []),
+          ...(link.model === model.name ? ['targetId'] : []),
+        ]
+        if (columns.length === 0) {
+          continue
+        }
+
+        const table = quoteIdentifier(await schemaManager.ensureLinkTable(owner, link.name))
+        for (const column of columns) {
+          for (let start = 0; start < ids.length; start += ID_BATCH_SIZE) {
+            const batch = ids.slice(start, start + ID_BATCH_SIZE)
+            await recordsDb.$executeRawUnsafe(
+              `DELETE FROM ${table} WHERE ${quoteIdentifier(column)} IN (${batch.map(() => '?').join(', ')})`,
+              ...batch
+            )
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Run a write and translate SQLite constraint failures into record errors
+   */
+  private async execute(sql: string, ...params: unknown[]): Promise<number> {
+    try {
+      return await recordsDb.$executeRawUnsafe(sql, ...params)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      const unique = message.match(/UNIQUE constraint failed: [^.\s`]+\.([^\s`,]+)/)
+      if (unique) {
+        throw new RecordConflictError(`A record with this '${unique[1]}' already exists`)
+      }
+      const notNull = message.match(/NOT NULL constraint failed: [^.\s`]+\.([^\s`,]+)/)
+      if (notNull) {
+        throw new RecordValidationError(`Field '${notNull[1]}' is required`)
+      }
+      throw error
+    }
+  }
+
+  private buildFilterSql(filters: RecordFilter[]): { clauses: string[]; params: unknown[] } {
+    const clauses: string[] = []
+    const params: unknown[] = []
+
+    for (const filter of filters) {
+      const column = quoteIdentifier(filter.field)
+      switch (filter.operator) {
+        case 'eq':
+          clauses.push(`${column} = ?`)
+          params.push(filter.value)
+          break
+        case 'ne':
+          clauses.push(`${column} IS NOT ?`)
+          params.push(filter.value)
+          break
+        case 'gt':
+          clauses.push(`${column} > ?`)
+          params.push(filter.value)
+          break
+        case 'lt':
+          clauses.push(`${column} < ?`)
+          params.push(filter.value)
+          break
+        case 'in': {
+          const values = filter.value as unknown[]
+          clauses.push(`${column} IN (${values.map(() => '?').join(', ')})`)
+          params.push(...values)
+          break
+        }
+        case 'contains':
+          clauses.push(`${column} LIKE ? ESCAPE '\\'`)
+          params.push(`%${String(filter.value).replace(/[\\%_]/g, match => `\\${match}`)}%`)
+          break
+        case 'isNull':
+          clauses.push(filter.value ? `${column} IS NULL` : `${column} IS NOT NULL`)
+          break
+      }
+    }
+
+    return { clauses, params }
+  }
+
+  /**
+   * Keyset condition selecting the rows that sort after the cursor. SQLite
+   * orders NULL before every value, so NULLs need their own comparisons.
+   */
+  private buildCursorSql(sort: RecordSort[], cursor: unknown[]): { clause: string; params: unknown[] } {
+    const alternatives: string[] = []
+    const params: unknown[] = []
+
+    sort.forEach((sortField, index) => {
+      const parts: string[] = []
+      const partParams: unknown[] = []
+
+      for (let i = 0; i < index; i++) {
+        parts.push(`${quoteIdentifier(sort[i].field)} IS ?`)
+        partParams.push(cursor[i])
+      }
+
+      const column = quoteIdentifier(sortField.field)
+      const value = cursor[index]
+      if (sortField.direction === 'asc') {
+        if (value === null) {
+          parts.push(`${column} IS NOT NULL`)
+        } else {
+          parts.push(`${column} > ?`)
+          partParams.push(value)
+        }
+      } else {
+        if (value === null) {
+          return
+        }
+        parts.push(`(${column} < ? OR ${column} IS NULL)`)
+        partParams.push(value)
+      }
+
+      alternatives.push(`(${parts.join(' AND ')})`)
+      params.push(...partParams)
+    })
+
+    return {
+      clause: alternatives.length > 0 ? `(${alternatives.join(' OR ')})` : '0',
+      params,
+    }
+  }
+
+  private hasSeparateOwnerColumn(model: ModelDefinition): boolean {
+    return !!model.ownerField && !model.fields.some(field => field.name === model.ownerField)
+  }
+
+  private assertValid(model: ModelDefinition, data: Record<string, any>, partial: boolean): void {
+    const errors = validateRecord(model, data, { partial })
+    if (errors.length > 0) {
+      throw new RecordValidationError(errors.join('; '))
+    }
+  }
+
+  /**
+   * Convert an incoming JSON value into what SQLite stores for the field type.
+   * Values have passed validateRecord, so only the conversions remain.
+   */
+  private toColumnValue(field: FieldDefinition, value: unknown): unknown {
+    if (value === null) {
+      return null
+    }
+
+    switch (field.type) {
+      case 'boolean':
+        return value === true || value === 'true' || value === 1 || value === '1' ? 1 : 0
+      case 'json':
+        // Strings are JSON documents, e.g. from the data admin; anything else is serialized
+        if (typeof value !== 'string') {
+          return JSON.stringify(value)
+        }
+        return value === '' ? null : JSON.stringify(JSON.parse(value))
+      case 'string':
+      case 'text':
+        return String(value)
+    }
+
+    // Empty inputs of the data admin clear the other fields, e.g. an empty picker
+    if (value === '') {
+      return null
+    }
+
+    switch (field.type) {
+      case 'number':
+      case 'integer':
+      case 'decimal':
+        return typeof value === 'number' ? value : Number(value)
+      case 'date':
+        return new Date(value as string).toISOString()
+      case 'dateOnly': {
+        // Full timestamps are cut to their (UTC) day
+        const text = String(value)
+        return text.length > 10 ? new Date(text).toISOString().slice(0, 10) : text
+      }
+      case 'email':
+      case 'url':
+      case 'enum':
+        return String(value).trim()
+      default:
+        return String(value)
+    }
+  }
+
+  private getTrashClause(model: ModelDefinition, scope: RecordScope): string | null {
+    if (!model.softDelete) {
+      return null
+    }
+    return `${quoteIdentifier('deletedAt')} ${scope.trash ? 'IS NOT NULL' : 'IS NULL'}`
+  }
+
+  private fromRow(model: ModelDefinition, row: Record<string, unknown>): RecordData {
+    const record: RecordData = { id: String(row.id) }
+
+    for (const [column, value] of Object.entries(row)) {
+      const field = model.fields.find(f => f.name === column)
+      if (value === null || value === undefined || !field) {
+        record[column] = value
+        continue
+      }
+
+      switch (field.type) {
+        case 'number':
+        case 'integer':
+        case 'decimal':
+          record[column] = Number(value)
+          break
+        case 'boolean':
+          record[column] = Number(value) === 1
+          break
+        case 'json':
+          record[column] = JSON.parse(String(value))
+          break
+        default:
+          record[column] = value
+      }
+    }
+
+    return record
+  }
+}
+
+export const recordStore = new RecordStore()
@@ -0,0 +1,148 @@
+import * as z from 'zod'
+import { describeDecimal, fitsDecimal, isDateOnly, isEmail, isUrl, numericFieldTypes } from '@/lib/field-formats'
+import type { ModelDefinition } from '@/lib/model-persistence'
+
+// The one validator of record values: the record store runs it on every write
+// and the data admin builds its form schema from it, so this module must stay
+// free of server-only imports
+
+type FieldDefinition = ModelDefinition['fields'][number]
+
+const BOOLEAN_VALUES = new Set<unknown>([true, false, 'true', 'false', 1, 0, '1', '0'])
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === ''
+}
+
+// Numbers arrive as JSON numbers from the API and as text from forms
+function toNumber(value: unknown): number {
+  return typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN
+}
+
+/**
+ * Check a value against the type of its field, or return why it does not fit
+ */
+function checkType(field: FieldDefinition, value: unknown): string | null {
+  const name = field.name
+
+  switch (field.type) {
+    case 'number':
+      return Number.isNaN(toNumber(value)) ? `Field '${name}' must be a number` : null
+    case 'integer':
+      return Number.isSafeInteger(toNumber(value)) ? null : `Field '${name}' must be a whole number`
+    case 'decimal': {
+      const number = toNumber(value)
+      return !Number.isNaN(number) && fitsDecimal(field, number) ? null : `Field '${name}' must be a number with ${describeDecimal(field)}`
+    }
+    case 'boolean':
+      return BOOLEAN_VALUES.has(value) ? null : `Field '${name}' must be a boolean`
+    case 'date':
+      return typeof value === 'string' && !Number.isNaN(new Date(value).getTime()) ? null : `Field '${name}' must be a valid date`
+    case 'dateOnly':
+      // Full timestamps are accepted and cut to their day when stored
+      return typeof value === 'string' && (isDateOnly(value) || (value.length > 10 && !Number.isNaN(new Date(value).getTime())))
+        ? null
+        : `Field '${name}' must be a date as YYYY-MM-DD`
+    case 'email':
+      return typeof value === 'string' && isEmail(value.trim()) ? null : `Field '${name}' must be an email address`
+    case 'url':
+      return typeof value === 'string' && isUrl(value.trim()) ? null : `Field '${name}' must be an http or https URL`
+    case 'enum':
+      return typeof value === 'string' && field.options?.includes(value.trim()) ? null : `Field '${name}' must be one of ${field.options?.join(', ')}`
+    case 'json':
+      if (typeof value !== 'string') {
+        return null
+      }
+      try {
+        JSON.parse(value)
+        return null
+      } catch {
+        return `Field '${name}' must be valid JSON`
+      }
+    case 'relation':
+      return typeof value === 'string' ? null : `Field '${name}' must be a record id`
+    default:
+      return typeof value === 'object' ? `Field '${name}' must be text` : null
+  }
+}
+
+/**
+ * Check a value of the right type against the validation rules of its field
+ */
+function checkRules(field: FieldDefinition, value: unknown): string | null {
+  const rules = field.validation
+  if (!rules) {
+    return null
+  }
+  const name = field.name
+
+  if ((numericFieldTypes as readonly string[]).includes(field.type)) {
+    const number = toNumber(value)
+    if (rules.min !== undefined && number < rules.min) {
+      return `Field '${name}' must be at least ${rules.min}`
+    }
+    if (rules.max !== undefined && number > rules.max) {
+      return `Field '${name}' must be at most ${rules.max}`
+    }
+    if (rules.allowedValues && !rules.allowedValues.includes(number)) {
+      return `Field '${name}' must be one of ${rules.allowedValues.join(', ')}`
+    }
+    return null
+  }
+
+  const text = String(value)
+  if (rules.minLength !== undefined && text.length < rules.minLength) {
+    return `Field '${name}' must be at least ${rules.minLength} characters long`
+  }
+  if (rules.maxLength !== undefined && text.length > rules.maxLength) {
+    return `Field '${name}' must be at most ${rules.maxLength} characters long`
+  }
+  if (rules.pattern !== undefined && !new RegExp(`^(?:${rules.pattern})$`).test(text)) {
+    return `Field '${name}' does not match the required format`
+  }
+  if (rules.allowedValues && !rules.allowedValues.includes(text)) {
+    return `Field '${name}' must be one of ${rules.allowedValues.join(', ')}`
+  }
+  return null
+}
+
+/**
+ * Why a value cannot be written to a field, or null when it can. Null and
+ * empty values only fail a required field; false and 0 are values. A custom
+ * message of the field replaces every default message.
+ */
+export function getFieldError(field: FieldDefinition, value: unknown): string | null {
+  const error = isBlank(value)
+    ? field.required ? `Field '${field.name}' is required` : null
+    : checkType(field, value) || checkRules(field, value)
+
+  return error && (field.validation?.message || error)
+}
+
+/**
+ * Zod schema of the values written to a model's fields. A create must set
+ * every required field without a default; an update (partial) only checks
+ * the fields it sends. Unknown keys are stripped.
+ */
+export function buildRecordSchema(fields: FieldDefinition[], options: { partial?: boolean } = {}) {
+  return z.object(Object.fromEntries(fields.map(field => [
+    field.name,
+    z.any().superRefine((value, ctx) => {
+      const missing = value === undefined
+      const error = missing
+        ? !options.partial && field.required && !field.default ? getFieldError(field, null) : null
+        : getFieldError(field, value)
+      if (error) {
+        ctx.addIssue({ code: 'custom', message: error })
+      }
+    }),
+  ])))
+}
+
+/**
+ * Every problem with the values of a create or update, as messages
+ */
+export function validateRecord(model: ModelDefinition, data: Record<string, unknown>, options: { partial?: boolean } = {}): string[] {
+  const result = buildRecordSchema(model.fields, options).safeParse(data)
+  return result.success ? [] : result.error.issues.map(issue => issue.message)
+}
@@ -0,0 +1,124 @@
+import { db } from '@/lib/db'
+import { ModelDefinition } from '@/lib/model-persistence'
+import type { RecordData } from '@/lib/record-store'
+import type { User } from '@/lib/rbac'
+
+// baseline: the state of a record written before history was kept
+export const versionActions = ['baseline', 'create', 'update', 'restore'] as const
+
+export type VersionAction = typeof versionActions[number]
+
+export interface RecordVersionInfo {
+  version: number
+  action: VersionAction
+  // The whole record as it was after the write
+  data: RecordData
+  // Version copied by a restore
+  restoredFrom: number | null
+  actorId: string | null
+  actorEmail: string | null
+  createdAt: Date
+}
+
+export class RecordVersionService {
+  /**
+   * Store the state of a record after a write as its next version. When the
+   * record has no history yet, the state before the write is kept first.
+   * Like the audit log, a failed write is logged and swallowed.
+   */
+  async capture(
+    model: ModelDefinition,
+    user: User,
+    action: Exclude<VersionAction, 'baseline'>,
+    record: RecordData,
+    previous?: RecordData | null,
+    restoredFrom?: number
+  ): Promise<void> {
+    try {
+      let version = await this.latestVersion(model, record.id)
+
+      if (version === 0 && previous) {
+        await this.insert(model, record.id, ++version, 'baseline', previous, null, null)
+      }
+      await this.insert(model, record.id, ++version, action, record, user, restoredFrom ?? null)
+    } catch (error) {
+      console.error('Error writing record version:', error)
+    }
+  }
+
+  /**
+   * Every version of a record, newest first
+   */
+  async list(model: ModelDefinition, recordId: string): Promise<RecordVersionInfo[]> {
+    const versions = await db.recordVersion.findMany({
+      where: { model: model.name, recordId },
+      orderBy: { version: 'desc' },
+    })
+
+    return versions.map((version: any) => this.toInfo(version))
+  }
+
+  async find(model: ModelDefinition, recordId: string, version: number): Promise<RecordVersionInfo | null> {
+    const found = await db.recordVersion.findUnique({
+      where: { model_recordId_version: { model: model.name, recordId, version } },
+    })
+
+    return found ? this.toInfo(found) : null
+  }
+
+  /**
+   * Drop the history of purged records along with the records themselves
+   */
+  async discard(model: ModelDefinition, recordIds: string[]): Promise<void> {
+    await db.recordVersion.deleteMany({
+      where: { model: model.name, recordId: { in: recordIds } },
+    })
+  }
+
+  private async latestVersion(model: ModelDefinition, recordId: string): Promise<number> {
+    const latest = await db.recordVersion.findFirst({
+      where: { model: model.name, recordId },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    })
+
+    return latest?.version ?? 0
+  }
+
+  private async insert(
+    model: ModelDefinition,
+    recordId: string,
+    version: number,
+    action: VersionAction,
+    data: RecordData,
+    user: User | null,
+    restoredFrom: number | null
+  ): Promise<void> {
+    await db.recordVersion.create({
+      data: {
+        model: model.name,
+        recordId,
+        version,
+        action,
+        data: JSON.stringify(data),
+        restoredFrom,
+        actorId: user?.id ?? null,
+        actorEmail: user?.email ?? null,
+      },
+    })
+  }
+
+  private toInfo(version: any): RecordVersionInfo {
+    return {
+      version: version.version,
+      action: version.action,
+      data: JSON.parse(version.data),
+      restoredFrom: version.restoredFrom,
+      actorId: version.actorId,
+      actorEmail: version.actorEmail,
+      createdAt: version.createdAt,
+    }
+  }
+}
+
+export const recordVersions = new RecordVersionService()
@@ -0,0 +1,302 @@
+import { db } from '@/lib/db'
+
+// Permissions outside any model: managing model definitions and reading the audit log
+export const systemPermissions = ['model:create', 'model:edit', 'model:publish', 'model:delete', 'audit:read'] as const
+
+export type SystemPermission = typeof systemPermissions[number]
+
+export interface RoleInfo {
+  id: string
+  name: string
+  description: string | null
+  isAdmin: boolean
+  parent: string | null
+  // Granted to this role directly; parents add theirs and admin roles hold all
+  permissions: SystemPermission[]
+  userCount: number
+  // Model definitions whose RBAC, field permissions or policies name the role
+  models: string[]
+  createdAt: Date
+}
+
+export interface RoleInput {
+  name?: string
+  description?: string | null
+  isAdmin?: boolean
+  parent?: string | null
+  permissions?: string[]
+}
+
+// Created on first setup; the names match the RBAC matrix of new models.
+// Parents come first so every parent exists when its children are created.
+export const DEFAULT_ROLES: Array<{
+  name: string
+  description: string
+  isAdmin: boolean
+  parent: string | null
+  permissions: SystemPermission[]
+}> = [
+  { name: 'Viewer', description: 'Read-only access', isAdmin: false, parent: null, permissions: [] },
+  { name: 'Manager', description: 'Creates and updates records', isAdmin: false, parent: 'Viewer', permissions: ['model:create', 'model:edit'] },
+  { name: 'Admin', description: 'Full access to every model', isAdmin: true, parent: 'Manager', permissions: [] },
+]
+
+const ROLE_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9 _-]{0,49}$/
+
+/**
+ * Raised when role input is malformed
+ */
+export class RoleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RoleError'
+  }
+}
+
+/**
+ * Raised when a change would leave users or models pointing at a missing role
+ */
+export class RoleConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RoleConflictError'
+  }
+}
+
+function parsePermissions(value: unknown): SystemPermission[] {
+  if (!Array.isArray(value) || value.some(permission => !(systemPermissions as readonly string[]).includes(permission))) {
+    throw new RoleError(`permissions may only contain ${systemPermissions.join(', ')}`)
+  }
+  return Array.from(new Set(value))
+}
+
+function readPermissions(value: string | null): SystemPermission[] {
+  return value ? JSON.parse(value) : []
+}
+
+export class RoleService {
+  async list(): Promise<RoleInfo[]> {
+    const roles = await db.role.findMany({
+      orderBy: { createdAt: 'asc' },
+    })
+    const references = await this.findModelReferences()
+
+    return Promise.all(roles.map(async (role: any) => ({
+      id: role.id,
+      name: role.name,
+      description: role.description,
+      isAdmin: role.isAdmin,
+      parent: role.parent,
+      permissions: readPermissions(role.permissions),
+      userCount: await db.user.count({ where: { role: role.name } }),
+      models: references.get(role.name) || [],
+      createdAt: role.createdAt,
+    })))
+  }
+
+  async findByName(name: string) {
+    return db.role.findUnique({
+      where: { name },
+    })
+  }
+
+  /**
+   * Names of the roles a role inherits from, nearest parent first
+   */
+  async getAncestors(name: string): Promise<string[]> {
+    const ancestors: string[] = []
+    let role = await this.findByName(name)
+
+    // The visited check guards against cycles written directly to the database
+    while (role?.parent && role.parent !== name && !ancestors.includes(role.parent)) {
+      ancestors.push(role.parent)
+      role = await this.findByName(role.parent)
+    }
+
+    return ancestors
+  }
+
+  /**
+   * System permissions of a role and the roles it inherits from. Admin
+   * roles hold every system permission.
+   */
+  async getSystemPermissions(name: string): Promise<SystemPermission[]> {
+    const role = await this.findByName(name)
+    if (!role) {
+      return []
+    }
+    if (role.isAdmin) {
+      return [...systemPermissions]
+    }
+
+    const permissions = new Set(readPermissions(role.permissions))
+    for (const ancestor of await this.getAncestors(name)) {
+      const parent = await this.findByName(ancestor)
+      for (const permission of readPermissions(parent?.permissions ?? null)) {
+        permissions.add(permission)
+      }
+    }
+
+    return Array.from(permissions)
+  }
+
+  async create(input: RoleInput) {
+    const name = input.name?.trim()
+    if (!name || !ROLE_NAME_PATTERN.test(name)) {
+      throw new RoleError('Role names start with a letter and may contain letters, digits, spaces, _ and -')
+    }
+    if (await this.findByName(name)) {
+      throw new RoleConflictError(`Role '${name}' already exists`)
+    }
+    await this.checkParent(name, input.parent)
+
+    return db.role.create({
+      data: {
+        name,
+        description: input.description || null,
+        isAdmin: !!input.isAdmin,
+        parent: input.parent || null,
+        permissions: JSON.stringify(input.permissions !== undefined ? parsePermissions(input.permissions) : []),
+      },
+    })
+  }
+
+  /**
+   * Update the description, admin flag, parent and system permissions.
+   * Names are fixed because model definitions refer to roles by name.
+   */
+  async update(id: string, input: RoleInput) {
+    const role = await db.role.findUnique({ where: { id } })
+    if (!role) {
+      return null
+    }
+    if (input.name !== undefined && input.name !== role.name) {
+      throw new RoleError('Roles cannot be renamed')
+    }
+    if (role.isAdmin && input.isAdmin === false && (await this.countAdminRoles()) <= 1) {
+      throw new RoleConflictError('At least one admin role is required')
+    }
+    if (input.parent !== undefined) {
+      await this.checkParent(role.name, input.parent)
+    }
+
+    return db.role.update({
+      where: { id },
+      data: {
+        ...(input.description !== undefined ? { description: input.description || null } : {}),
+        ...(input.isAdmin !== undefined ? { isAdmin: !!input.isAdmin } : {}),
+        ...(input.parent !== undefined ? { parent: input.parent || null } : {}),
+        ...(input.permissions !== undefined ? { permissions: JSON.stringify(parsePermissions(input.permissions)) } : {}),
+      },
+    })
+  }
+
+  /**
+   * Delete a role that no user or model refers to
+   */
+  async delete(id: string): Promise<boolean> {
+    const role = await db.role.findUnique({ where: { id } })
+    if (!role) {
+      return false
+    }
+
+    const userCount = await db.user.count({ where: { role: role.name } })
+    if (userCount > 0) {
+      throw new RoleConflictError(`Role '${role.name}' is assigned to ${userCount} user(s)`)
+    }
+
+    const children = await db.role.findMany({
+      where: { parent: role.name },
+      select: { name: true },
+    })
+    if (children.length > 0) {
+      throw new RoleConflictError(
+        `Role '${role.name}' is the parent of ${children.map((child: { name: string }) => child.name).join(', ')}`
+      )
+    }
+
+    const models = (await this.findModelReferences()).get(role.name) || []
+    if (models.length > 0) {
+      throw new RoleConflictError(`Role '${role.name}' is used by model(s) ${models.join(', ')}`)
+    }
+
+    if (role.isAdmin && (await this.countAdminRoles()) <= 1) {
+      throw new RoleConflictError('At least one admin role is required')
+    }
+
+    await db.role.delete({ where: { id } })
+    return true
+  }
+
+  /**
+   * Create the default roles on an empty table and move users from the old
+   * ADMIN/MANAGER/VIEWER enum values to the matching role names
+   */
+  async ensureDefaults(): Promise<void> {
+    if ((await db.role.count()) === 0) {
+      for (const role of DEFAULT_ROLES) {
+        await db.role.create({
+          data: { ...role, permissions: JSON.stringify(role.permissions) },
+        })
+      }
+    }
+
+    for (const role of DEFAULT_ROLES) {
+      await db.user.updateMany({
+        where: { role: role.name.toUpperCase() },
+        data: { role: role.name },
+      })
+    }
+  }
+
+  /**
+   * A parent must exist and must not inherit from the role itself
+   */
+  private async checkParent(name: string, parent?: string | null): Promise<void> {
+    if (!parent) {
+      return
+    }
+    if (parent === name) {
+      throw new RoleError('A role cannot inherit from itself')
+    }
+    if (!(await this.findByName(parent))) {
+      throw new RoleError(`Parent role '${parent}' does not exist`)
+    }
+    if ((await this.getAncestors(parent)).includes(name)) {
+      throw new RoleError(`Role '${parent}' already inherits from '${name}'`)
+    }
+  }
+
+  private async countAdminRoles(): Promise<number> {
+    return db.role.count({ where: { isAdmin: true } })
+  }
+
+  /**
+   * Role name -> names of the model definitions that mention it
+   */
+  private async findModelReferences(): Promise<Map<string, string[]>> {
+    const references = new Map<string, string[]>()
+    const models = await db.modelDefinition.findMany({
+      select: { name: true, definition: true },
+    })
+
+    for (const model of models) {
+      const definition = JSON.parse(model.definition)
+      const names = new Set<string>([
+        // A role with an empty permission list grants nothing and can go
+        ...Object.entries(definition.rbac || {})
+          .filter(([, actions]) => Array.isArray(actions) && actions.length > 0)
+          .map(([name]) => name),
+        ...(definition.fields || []).flatMap((field: any) => Object.keys(field.permissions || {})),
+        ...(definition.policies || []).flatMap((policy: any) => policy.roles || []),
+      ])
+      for (const name of names) {
+        references.set(name, [...(references.get(name) || []), model.name])
+      }
+    }
+
+    return references
+  }
+}
+
+export const roles = new RoleService()
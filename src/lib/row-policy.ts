@@ -0,0 +1,402 @@
+import { numericFieldTypes } from '@/lib/field-formats'
+import { ModelDefinition, RowPolicy } from '@/lib/model-persistence'
+import { policyActions } from '@/lib/model-schema'
+import { getQueryableFields } from '@/lib/record-query'
+import type { RecordData, SqlCondition } from '@/lib/record-store'
+import { quoteIdentifier } from '@/lib/schema-manager'
+
+export { policyActions }
+
+export type PolicyAction = typeof policyActions[number]
+
+type ComparisonOperator = '==' | '!=' | '>' | '<' | '>=' | '<='
+
+type Literal = string | number | boolean | null
+
+type PolicyOperand =
+  | { kind: 'field'; name: string }
+  | { kind: 'user'; name: string }
+  | { kind: 'literal'; value: Literal }
+
+export type PolicyNode =
+  | { kind: 'logical'; operator: '&&' | '||'; left: PolicyNode; right: PolicyNode }
+  | { kind: 'comparison'; operator: ComparisonOperator; left: PolicyOperand; right: PolicyOperand }
+
+/**
+ * Values of the requesting user that conditions can refer to as `user.<name>`
+ */
+export type PolicyUser = Record<string, unknown>
+
+/**
+ * Raised when a policy or its condition is malformed
+ */
+export class PolicyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PolicyError'
+  }
+}
+
+type Token =
+  | { type: 'operator'; value: string; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'number'; value: number; position: number }
+  | { type: 'identifier'; value: string; position: number }
+
+const TOKEN_PATTERN =
+  /(?:(==|!=|>=|<=|&&|\|\||[()<>])|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|(-?\d+(?:\.\d+)?)|([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)?))/y
+
+const COMPARISON_OPERATORS = new Set(['==', '!=', '>', '<', '>=', '<='])
+
+function tokenize(condition: string): Token[] {
+  const tokens: Token[] = []
+  let position = 0
+
+  while (true) {
+    while (/\s/.test(condition.charAt(position))) {
+      position++
+    }
+    if (position >= condition.length) {
+      break
+    }
+
+    TOKEN_PATTERN.lastIndex = position
+    const match = TOKEN_PATTERN.exec(condition)
+    if (!match) {
+      throw new PolicyError(`Unexpected character at position ${position + 1} in '${condition}'`)
+    }
+
+    const [, operator, single, double, number, identifier] = match
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position })
+    } else if (single !== undefined || double !== undefined) {
+      tokens.push({ type: 'string', value: (single ?? double).replace(/\\(.)/g, '$1'), position })
+    } else if (number) {
+      tokens.push({ type: 'number', value: Number(number), position })
+    } else {
+      tokens.push({ type: 'identifier', value: identifier, position })
+    }
+    position = TOKEN_PATTERN.lastIndex
+  }
+
+  return tokens
+}
+
+/**
+ * Recursive descent over `or := and ('||' and)*`, `and := primary ('&&' primary)*`
+ * and `primary := '(' or ')' | operand comparison operand`
+ */
+class PolicyParser {
+  private index = 0
+
+  constructor(private condition: string, private tokens: Token[]) {}
+
+  parse(): PolicyNode {
+    if (this.tokens.length === 0) {
+      throw new PolicyError('Policy condition is empty')
+    }
+
+    const node = this.parseOr()
+    const extra = this.tokens[this.index]
+    if (extra) {
+      throw this.unexpected(extra)
+    }
+    return node
+  }
+
+  private parseOr(): PolicyNode {
+    let node = this.parseAnd()
+    while (this.peekOperator('||')) {
+      this.index++
+      node = { kind: 'logical', operator: '||', left: node, right: this.parseAnd() }
+    }
+    return node
+  }
+
+  private parseAnd(): PolicyNode {
+    let node = this.parsePrimary()
+    while (this.peekOperator('&&')) {
+      this.index++
+      node = { kind: 'logical', operator: '&&', left: node, right: this.parsePrimary() }
+    }
+    return node
+  }
+
+  private parsePrimary(): PolicyNode {
+    if (this.peekOperator('(')) {
+      this.index++
+      const node = this.parseOr()
+      if (!this.peekOperator(')')) {
+        throw this.unexpected(this.tokens[this.index], `')'`)
+      }
+      this.index++
+      return node
+    }
+
+    const left = this.parseOperand()
+    const token = this.tokens[this.index]
+    if (!token || token.type !== 'operator' || !COMPARISON_OPERATORS.has(token.value)) {
+      throw this.unexpected(token, 'a comparison operator')
+    }
+    this.index++
+
+    return {
+      kind: 'comparison',
+      operator: token.value as ComparisonOperator,
+      left,
+      right: this.parseOperand(),
+    }
+  }
+
+  private parseOperand(): PolicyOperand {
+    const token = this.tokens[this.index]
+    if (!token || token.type === 'operator') {
+      throw this.unexpected(token, 'a field, user value or literal')
+    }
+    this.index++
+
+    switch (token.type) {
+      case 'string':
+      case 'number':
+        return { kind: 'literal', value: token.value }
+      case 'identifier':
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'literal', value: token.value === 'true' }
+        }
+        if (token.value === 'null') {
+          return { kind: 'literal', value: null }
+        }
+        if (token.value.startsWith('user.')) {
+          return { kind: 'user', name: token.value.slice('user.'.length) }
+        }
+        if (token.value.includes('.')) {
+          throw new PolicyError(`Unknown reference '${token.value}' in '${this.condition}'`)
+        }
+        return { kind: 'field', name: token.value }
+    }
+  }
+
+  private peekOperator(value: string): boolean {
+    const token = this.tokens[this.index]
+    return !!token && token.type === 'operator' && token.value === value
+  }
+
+  private unexpected(token: Token | undefined, expected?: string): PolicyError {
+    const found = token ? `'${token.value}' at position ${token.position + 1}` : 'end of condition'
+    return new PolicyError(
+      `${expected ? `Expected ${expected} but found` : 'Unexpected'} ${found} in '${this.condition}'`
+    )
+  }
+}
+
+export class RowPolicyEngine {
+  private cache = new Map<string, PolicyNode>()
+
+  parse(condition: string): PolicyNode {
+    let node = this.cache.get(condition)
+    if (!node) {
+      node = new PolicyParser(condition, tokenize(condition)).parse()
+      this.cache.set(condition, node)
+    }
+    return node
+  }
+
+  /**
+   * Check every policy of a model: known actions, a role list and a
+   * condition that only refers to fields of the model
+   */
+  validate(model: ModelDefinition): void {
+    const fields = getQueryableFields(model)
+
+    ;(model.policies || []).forEach((policy, index) => {
+      const label = `Policy ${index + 1}`
+      if (!Array.isArray(policy.roles) || policy.roles.length === 0) {
+        throw new PolicyError(`${label} must apply to at least one role`)
+      }
+      if (
+        !Array.isArray(policy.actions) ||
+        policy.actions.length === 0 ||
+        policy.actions.some(action => !(policyActions as readonly string[]).includes(action))
+      ) {
+        throw new PolicyError(`${label} must apply to one or more of ${policyActions.join(', ')}`)
+      }
+      if (typeof policy.condition !== 'string') {
+        throw new PolicyError(`${label} has no condition`)
+      }
+
+      try {
+        this.checkNode(this.parse(policy.condition), fields)
+      } catch (error) {
+        if (error instanceof PolicyError) {
+          throw new PolicyError(`${label}: ${error.message}`)
+        }
+        throw error
+      }
+    })
+  }
+
+  /**
+   * Policies that restrict a role for an action
+   */
+  getApplicablePolicies(model: ModelDefinition, role: string, action: PolicyAction): RowPolicy[] {
+    return (model.policies || []).filter(
+      policy => policy.roles.includes(role) && policy.actions.includes(action)
+    )
+  }
+
+  /**
+   * SQL condition that keeps the rows matching all policies, or null when
+   * there is nothing to restrict
+   */
+  toSql(policies: RowPolicy[], user: PolicyUser): SqlCondition | null {
+    if (policies.length === 0) {
+      return null
+    }
+
+    const params: unknown[] = []
+    const clauses = policies.map(policy => this.nodeToSql(this.parse(policy.condition), user, params))
+    return { clause: clauses.map(clause => `(${clause})`).join(' AND '), params }
+  }
+
+  /**
+   * Evaluate the policies against a stored record the same way the SQL does
+   */
+  matches(policies: RowPolicy[], user: PolicyUser, record: RecordData): boolean {
+    return policies.every(policy => this.evaluate(this.parse(policy.condition), user, record))
+  }
+
+  private checkNode(node: PolicyNode, fields: ReturnType<typeof getQueryableFields>): void {
+    if (node.kind === 'logical') {
+      this.checkNode(node.left, fields)
+      this.checkNode(node.right, fields)
+      return
+    }
+
+    for (const [operand, other] of [[node.left, node.right], [node.right, node.left]]) {
+      if (operand.kind !== 'field') {
+        continue
+      }
+      const type = fields[operand.name]
+      if (!type) {
+        throw new PolicyError(`Unknown field '${operand.name}'`)
+      }
+
+      // Stored as text but read back as parsed values, so SQL and in-memory checks would differ
+      if (type === 'json') {
+        throw new PolicyError(`JSON field '${operand.name}' cannot be used in a policy`)
+      }
+
+      // Literals must match the column type so SQL and in-memory checks agree
+      if (other.kind === 'literal' && other.value !== null) {
+        const literalType = typeof other.value
+        const expected = (numericFieldTypes as readonly string[]).includes(type) ? 'number' : type === 'boolean' ? 'boolean' : 'string'
+        if (literalType !== expected) {
+          throw new PolicyError(`Field '${operand.name}' holds ${type} values and cannot be compared with ${JSON.stringify(other.value)}`)
+        }
+      }
+      if (type === 'boolean' && node.operator !== '==' && node.operator !== '!=') {
+        throw new PolicyError(`Boolean field '${operand.name}' only supports == and !=`)
+      }
+    }
+  }
+
+  private nodeToSql(node: PolicyNode, user: PolicyUser, params: unknown[]): string {
+    if (node.kind === 'logical') {
+      const left = this.nodeToSql(node.left, user, params)
+      const right = this.nodeToSql(node.right, user, params)
+      return `(${left} ${node.operator === '&&' ? 'AND' : 'OR'} ${right})`
+    }
+
+    if (this.hasMissingUserValue(node, user)) {
+      return '0'
+    }
+
+    const left = this.operandToSql(node.left, user, params)
+    const right = this.operandToSql(node.right, user, params)
+    switch (node.operator) {
+      // IS compares NULL like any other value, matching === in evaluate()
+      case '==':
+        return `${left} IS ${right}`
+      case '!=':
+        return `${left} IS NOT ${right}`
+      default:
+        return `${left} ${node.operator} ${right}`
+    }
+  }
+
+  private operandToSql(operand: PolicyOperand, user: PolicyUser, params: unknown[]): string {
+    if (operand.kind === 'field') {
+      return quoteIdentifier(operand.name)
+    }
+
+    const value = this.resolveOperand(operand, user, {} as RecordData)
+    params.push(typeof value === 'boolean' ? (value ? 1 : 0) : value)
+    return '?'
+  }
+
+  private evaluate(node: PolicyNode, user: PolicyUser, record: RecordData): boolean {
+    if (node.kind === 'logical') {
+      return node.operator === '&&'
+        ? this.evaluate(node.left, user, record) && this.evaluate(node.right, user, record)
+        : this.evaluate(node.left, user, record) || this.evaluate(node.right, user, record)
+    }
+
+    if (this.hasMissingUserValue(node, user)) {
+      return false
+    }
+
+    const left = this.resolveOperand(node.left, user, record)
+    const right = this.resolveOperand(node.right, user, record)
+    switch (node.operator) {
+      case '==':
+        return left === right
+      case '!=':
+        return left !== right
+    }
+
+    // Ordering against NULL is never true in SQL
+    if (left === null || right === null) {
+      return false
+    }
+    switch (node.operator) {
+      case '>':
+        return left > right
+      case '<':
+        return left < right
+      case '>=':
+        return left >= right
+      case '<=':
+        return left <= right
+    }
+  }
+
+  /**
+   * A user without the referenced value never matches, so an unset
+   * department does not grant access to records without one
+   */
+  private hasMissingUserValue(
+    node: Extract<PolicyNode, { kind: 'comparison' }>,
+    user: PolicyUser
+  ): boolean {
+    return [node.left, node.right].some(
+      operand => operand.kind === 'user' && this.resolveOperand(operand, user, {} as RecordData) === null
+    )
+  }
+
+  /**
+   * Missing values and anything that is not a scalar compare as null
+   */
+  private resolveOperand(operand: PolicyOperand, user: PolicyUser, record: RecordData): Literal {
+    const value = operand.kind === 'literal'
+      ? operand.value
+      : operand.kind === 'user'
+        ? user[operand.name]
+        : record[operand.name]
+
+    return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+      ? value
+      : null
+  }
+}
+
+export const rowPolicies = new RowPolicyEngine()
@@ -0,0 +1,335 @@
+import { ModelDefinition, modelPersistence } from '@/lib/model-persistence'
+
+type FieldDefinition = ModelDefinition['fields'][number]
+
+export type SchemaChangeKind =
+  | 'tableRenamed'
+  | 'fieldAdded'
+  | 'fieldRemoved'
+  | 'fieldRenamed'
+  | 'fieldRetyped'
+  | 'relationChanged'
+  | 'optionsChanged'
+  | 'precisionChanged'
+  | 'uniqueAdded'
+  | 'uniqueRemoved'
+  | 'requiredAdded'
+  | 'requiredRemoved'
+  | 'defaultChanged'
+  | 'ownerFieldChanged'
+  | 'softDeleteEnabled'
+  | 'softDeleteDisabled'
+  | 'linkAdded'
+  | 'linkRemoved'
+  | 'linkRetargeted'
+
+export interface SchemaChange {
+  kind: SchemaChangeKind
+  field?: string
+  from?: string
+  to?: string
+  safe: boolean
+  description: string
+}
+
+export interface MigrationPlan {
+  model: string
+  isNew: boolean
+  destructive: boolean
+  changes: SchemaChange[]
+  // New field name -> column it is copied from in the current table
+  columnSources: Record<string, string>
+  // Fields whose existing values are dropped because they cannot be converted
+  discardedFields: string[]
+  // Links whose join table is emptied because they now point at another model
+  clearedLinks: string[]
+  previousTableName?: string
+}
+
+/**
+ * Retyping is lossless when every old value has a textual form in the new
+ * column, or when whole numbers become floating-point numbers
+ */
+function isSafeRetype(from: FieldDefinition['type'], to: FieldDefinition['type']): boolean {
+  return to === 'string' || to === 'text' || (from === 'integer' && to === 'number')
+}
+
+/**
+ * Pair removed and added fields into renames. Only explicit renames count; a
+ * field that is missing from the next definition is otherwise removed, so its
+ * values are never copied into an unrelated new field without confirmation.
+ */
+function detectRenames(
+  previous: ModelDefinition,
+  next: ModelDefinition,
+  explicitRenames: Record<string, string>
+): Map<string, string> {
+  const previousNames = new Set(previous.fields.map(field => field.name))
+  const nextNames = new Set(next.fields.map(field => field.name))
+  const renames = new Map<string, string>()
+  const renamedTargets = new Set<string>()
+
+  for (const [from, to] of Object.entries(explicitRenames)) {
+    if (
+      previousNames.has(from) &&
+      !nextNames.has(from) &&
+      nextNames.has(to) &&
+      !previousNames.has(to) &&
+      !renamedTargets.has(to)
+    ) {
+      renames.set(from, to)
+      renamedTargets.add(to)
+    }
+  }
+
+  return renames
+}
+
+function hasSeparateOwnerColumn(model: ModelDefinition): boolean {
+  return !!model.ownerField && !model.fields.some(field => field.name === model.ownerField)
+}
+
+/**
+ * Compare a published definition with the one about to be published and
+ * classify every change as safe or destructive
+ */
+export function diffModels(
+  previous: ModelDefinition | null,
+  next: ModelDefinition,
+  explicitRenames: Record<string, string> = {}
+): MigrationPlan {
+  const plan: MigrationPlan = {
+    model: next.name,
+    isNew: !previous,
+    destructive: false,
+    changes: [],
+    columnSources: {},
+    discardedFields: [],
+    clearedLinks: [],
+  }
+
+  if (!previous) {
+    return plan
+  }
+
+  const previousTable = modelPersistence.getTableName(previous)
+  const nextTable = modelPersistence.getTableName(next)
+  if (previousTable !== nextTable) {
+    plan.previousTableName = previousTable
+    plan.changes.push({
+      kind: 'tableRenamed',
+      from: previousTable,
+      to: nextTable,
+      safe: true,
+      description: `Table '${previousTable}' will be renamed to '${nextTable}'`,
+    })
+  }
+
+  const renames = detectRenames(previous, next, explicitRenames)
+  const renamedFrom = new Map(Array.from(renames, ([from, to]) => [to, from]))
+
+  for (const field of previous.fields) {
+    if (next.fields.some(candidate => candidate.name === field.name) || renames.has(field.name)) {
+      continue
+    }
+    plan.changes.push({
+      kind: 'fieldRemoved',
+      field: field.name,
+      safe: false,
+      description: `Field '${field.name}' and all of its values will be dropped`,
+    })
+  }
+
+  for (const field of next.fields) {
+    const sourceName = renamedFrom.get(field.name) ?? field.name
+    const before = previous.fields.find(candidate => candidate.name === sourceName)
+
+    if (!before) {
+      const safe = !field.required || (field.default !== undefined && field.default !== '')
+      plan.changes.push({
+        kind: 'fieldAdded',
+        field: field.name,
+        to: field.type,
+        safe,
+        description: safe
+          ? `Field '${field.name}' (${field.type}) will be added`
+          : `Required field '${field.name}' has no default, so existing records cannot be migrated`,
+      })
+      continue
+    }
+
+    if (sourceName !== field.name) {
+      plan.changes.push({
+        kind: 'fieldRenamed',
+        field: field.name,
+        from: sourceName,
+        to: field.name,
+        safe: true,
+        description: `Field '${sourceName}' will be renamed to '${field.name}'`,
+      })
+    }
+
+    let copyValues = true
+    if (before.type !== field.type) {
+      const safe = isSafeRetype(before.type, field.type)
+      copyValues = safe
+      plan.changes.push({
+        kind: 'fieldRetyped',
+        field: field.name,
+        from: before.type,
+        to: field.type,
+        safe,
+        description: safe
+          ? `Field '${field.name}' will change from ${before.type} to ${field.type}`
+          : `Field '${field.name}' will change from ${before.type} to ${field.type} and its values will be discarded`,
+      })
+      if (!safe) {
+        plan.discardedFields.push(field.name)
+      }
+    } else if (field.type === 'relation' && before.relation !== field.relation) {
+      // The stored ids belong to records of the old related model
+      copyValues = false
+      plan.changes.push({
+        kind: 'relationChanged',
+        field: field.name,
+        from: before.relation,
+        to: field.relation,
+        safe: false,
+        description: `Field '${field.name}' will relate to ${field.relation} instead of ${before.relation} and its values will be discarded`,
+      })
+      plan.discardedFields.push(field.name)
+    } else if (field.type === 'enum' && (before.options || []).join('\n') !== (field.options || []).join('\n')) {
+      const removed = (before.options || []).filter(option => !field.options?.includes(option))
+      plan.changes.push({
+        kind: 'optionsChanged',
+        field: field.name,
+        safe: true,
+        description: removed.length > 0
+          ? `Options of field '${field.name}' will change; records holding ${removed.join(', ')} keep them but cannot be saved with them again`
+          : `Options of field '${field.name}' will change`,
+      })
+    } else if (field.type === 'decimal' && (before.precision !== field.precision || before.scale !== field.scale)) {
+      plan.changes.push({
+        kind: 'precisionChanged',
+        field: field.name,
+        safe: true,
+        description: `Precision of field '${field.name}' will change; existing values are kept as they are`,
+      })
+    }
+
+    if (copyValues) {
+      plan.columnSources[field.name] = sourceName
+    }
+
+    if (!before.unique && field.unique) {
+      plan.changes.push({
+        kind: 'uniqueAdded',
+        field: field.name,
+        safe: false,
+        description: `Field '${field.name}' becomes unique; duplicate values will block the migration`,
+      })
+    } else if (before.unique && !field.unique) {
+      plan.changes.push({
+        kind: 'uniqueRemoved',
+        field: field.name,
+        safe: true,
+        description: `Field '${field.name}' is no longer unique`,
+      })
+    }
+
+    if (!before.required && field.required) {
+      plan.changes.push({
+        kind: 'requiredAdded',
+        field: field.name,
+        safe: false,
+        description: `Field '${field.name}' becomes required; records without a value will block the migration`,
+      })
+    } else if (before.required && !field.required) {
+      plan.changes.push({
+        kind: 'requiredRemoved',
+        field: field.name,
+        safe: true,
+        description: `Field '${field.name}' is no longer required`,
+      })
+    }
+
+    if ((before.default || '') !== (field.default || '')) {
+      plan.changes.push({
+        kind: 'defaultChanged',
+        field: field.name,
+        from: before.default,
+        to: field.default,
+        safe: true,
+        description: `Default of field '${field.name}' will change`,
+      })
+    }
+  }
+
+  if ((previous.ownerField || '') !== (next.ownerField || '')) {
+    const losesColumn = hasSeparateOwnerColumn(previous) &&
+      !next.fields.some(field => field.name === previous.ownerField)
+    plan.changes.push({
+      kind: 'ownerFieldChanged',
+      from: previous.ownerField || undefined,
+      to: next.ownerField || undefined,
+      safe: !losesColumn,
+      description: losesColumn
+        ? `Owner field '${previous.ownerField}' will be dropped together with its values`
+        : `Owner field will change to '${next.ownerField || 'none'}'`,
+    })
+  } else if (next.ownerField && hasSeparateOwnerColumn(next)) {
+    plan.columnSources[next.ownerField] = next.ownerField
+  }
+
+  if (!previous.softDelete && next.softDelete) {
+    plan.changes.push({
+      kind: 'softDeleteEnabled',
+      safe: true,
+      description: 'Deleted records will move to the trash',
+    })
+  } else if (previous.softDelete && !next.softDelete) {
+    plan.changes.push({
+      kind: 'softDeleteDisabled',
+      safe: false,
+      description: 'Soft delete is turned off; records in the trash will be purged',
+    })
+  }
+
+  const previousLinks = previous.links || []
+  for (const link of next.links || []) {
+    const before = previousLinks.find(candidate => candidate.name === link.name)
+    if (!before) {
+      plan.changes.push({
+        kind: 'linkAdded',
+        field: link.name,
+        to: link.model,
+        safe: true,
+        description: `Link '${link.name}' to ${link.model} will be added`,
+      })
+    } else if (before.model !== link.model) {
+      plan.changes.push({
+        kind: 'linkRetargeted',
+        field: link.name,
+        from: before.model,
+        to: link.model,
+        safe: false,
+        description: `Link '${link.name}' will point at ${link.model} instead of ${before.model} and its links will be removed`,
+      })
+      plan.clearedLinks.push(link.name)
+    }
+  }
+  for (const link of previousLinks) {
+    if (!(next.links || []).some(candidate => candidate.name === link.name)) {
+      plan.changes.push({
+        kind: 'linkRemoved',
+        field: link.name,
+        from: link.model,
+        safe: false,
+        description: `Link '${link.name}' and all of its links will be dropped`,
+      })
+    }
+  }
+
+  plan.destructive = plan.changes.some(change => !change.safe)
+  return plan
+}
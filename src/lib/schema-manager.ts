@@ -0,0 +1,434 @@
+import { recordsDb } from '@/lib/db'
+import { describeDecimal, fitsDecimal, isDateOnly, isEmail, isUrl } from '@/lib/field-formats'
+import { ModelDefinition, modelPersistence } from '@/lib/model-persistence'
+import type { MigrationPlan } from '@/lib/schema-diff'
+
+type FieldDefinition = ModelDefinition['fields'][number]
+
+export interface ColumnSpec {
+  name: string
+  type: 'TEXT' | 'REAL' | 'INTEGER'
+  notNull: boolean
+  unique: boolean
+  primaryKey: boolean
+  defaultValue: string | null
+}
+
+export interface MigrationResult {
+  table: string
+  action: 'created' | 'migrated' | 'unchanged'
+}
+
+/**
+ * Raised when a model definition cannot be turned into a table
+ */
+export class SchemaError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SchemaError'
+  }
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+export function quoteIdentifier(name: string): string {
+  if (!IDENTIFIER_PATTERN.test(name)) {
+    throw new SchemaError(`Invalid identifier '${name}'`)
+  }
+  return `"${name}"`
+}
+
+export class SchemaManager {
+  /**
+   * Describe the columns a model's table must have
+   */
+  getColumnSpecs(model: ModelDefinition): ColumnSpec[] {
+    const columns: ColumnSpec[] = [
+      { name: 'id', type: 'TEXT', notNull: true, unique: false, primaryKey: true, defaultValue: null },
+    ]
+
+    for (const field of model.fields) {
+      columns.push({
+        name: field.name,
+        type: this.getColumnType(field),
+        notNull: !!field.required,
+        unique: !!field.unique,
+        primaryKey: false,
+        defaultValue: this.getDefaultLiteral(field),
+      })
+    }
+
+    if (model.ownerField && !model.fields.some(field => field.name === model.ownerField)) {
+      columns.push({
+        name: model.ownerField,
+        type: 'TEXT',
+        notNull: false,
+        unique: false,
+        primaryKey: false,
+        defaultValue: null,
+      })
+    }
+
+    columns.push(
+      { name: 'createdAt', type: 'TEXT', notNull: true, unique: false, primaryKey: false, defaultValue: null },
+      { name: 'updatedAt', type: 'TEXT', notNull: true, unique: false, primaryKey: false, defaultValue: null }
+    )
+
+    // Set when a record is moved to the trash
+    if (model.softDelete) {
+      columns.push({ name: 'deletedAt', type: 'TEXT', notNull: false, unique: false, primaryKey: false, defaultValue: null })
+    }
+
+    return columns
+  }
+
+  generateCreateTableSql(model: ModelDefinition, tableName: string = modelPersistence.getTableName(model)): string {
+    const columns = this.getColumnSpecs(model).map(column => {
+      let definition = `${quoteIdentifier(column.name)} ${column.type}`
+      if (column.primaryKey) {
+        definition += ' PRIMARY KEY'
+      }
+      if (column.notNull) {
+        definition += ' NOT NULL'
+      }
+      if (column.unique) {
+        definition += ' UNIQUE'
+      }
+      if (column.defaultValue !== null) {
+        definition += ` DEFAULT ${column.defaultValue}`
+      }
+      return definition
+    })
+
+    return `CREATE TABLE ${quoteIdentifier(tableName)} (${columns.join(', ')}) STRICT`
+  }
+
+  async tableExists(tableName: string): Promise<boolean> {
+    const rows = await recordsDb.$queryRawUnsafe<{ name: string }[]>(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`,
+      tableName
+    )
+    return rows.length > 0
+  }
+
+  /**
+   * Create the table of a model if it is missing, without migrating it
+   */
+  async ensureTable(model: ModelDefinition): Promise<void> {
+    const tableName = modelPersistence.getTableName(model)
+    if (!(await this.tableExists(tableName))) {
+      await recordsDb.$executeRawUnsafe(this.generateCreateTableSql(model, tableName))
+    }
+  }
+
+  /**
+   * Whether the table of a model exists and already has the columns of the definition
+   */
+  async matchesTable(model: ModelDefinition): Promise<boolean> {
+    const tableName = modelPersistence.getTableName(model)
+    return (await this.tableExists(tableName)) &&
+      this.sameColumns(this.getColumnSpecs(model), await this.readColumnSpecs(tableName))
+  }
+
+  /**
+   * Create or alter the table of a model so it matches the definition. When a
+   * migration plan is given, renamed columns and the renamed table keep their
+   * data and discarded fields start out empty.
+   */
+  async migrateTable(model: ModelDefinition, plan?: MigrationPlan): Promise<MigrationResult> {
+    const tableName = modelPersistence.getTableName(model)
+
+    if (
+      plan?.previousTableName &&
+      (await this.tableExists(plan.previousTableName)) &&
+      !(await this.tableExists(tableName))
+    ) {
+      await recordsDb.$executeRawUnsafe(
+        `ALTER TABLE ${quoteIdentifier(plan.previousTableName)} RENAME TO ${quoteIdentifier(tableName)}`
+      )
+    }
+
+    if (!(await this.tableExists(tableName))) {
+      await recordsDb.$executeRawUnsafe(this.generateCreateTableSql(model, tableName))
+      await this.migrateLinkTables(model, plan)
+      return { table: tableName, action: 'created' }
+    }
+
+    const linksChanged = await this.migrateLinkTables(model, plan)
+    const expected = this.getColumnSpecs(model)
+    const actual = await this.readColumnSpecs(tableName)
+    if (this.sameColumns(expected, actual)) {
+      return { table: tableName, action: linksChanged ? 'migrated' : 'unchanged' }
+    }
+
+    await this.rebuildTable(model, tableName, actual, plan?.isNew ? undefined : plan)
+    return { table: tableName, action: 'migrated' }
+  }
+
+  /**
+   * Join table of a many-to-many link. It is named after the declaring model,
+   * not its table, so renaming the table leaves it in place.
+   */
+  getLinkTableName(model: ModelDefinition, linkName: string): string {
+    return `link__${model.name}__${linkName}`
+  }
+
+  /**
+   * Create the join table of a link if it is missing. sourceId holds records
+   * of the declaring model, targetId records of the linked model.
+   */
+  async ensureLinkTable(model: ModelDefinition, linkName: string): Promise<string> {
+    const tableName = this.getLinkTableName(model, linkName)
+    const table = quoteIdentifier(tableName)
+    await recordsDb.$executeRawUnsafe(
+      `CREATE TABLE IF NOT EXISTS ${table} (${quoteIdentifier('sourceId')} TEXT NOT NULL, ${quoteIdentifier('targetId')} TEXT NOT NULL, ${quoteIdentifier('createdAt')} TEXT NOT NULL, PRIMARY KEY (${quoteIdentifier('sourceId')}, ${quoteIdentifier('targetId')})) STRICT`
+    )
+    await recordsDb.$executeRawUnsafe(
+      `CREATE INDEX IF NOT EXISTS ${quoteIdentifier(`${tableName}__target`)} ON ${table} (${quoteIdentifier('targetId')})`
+    )
+    return tableName
+  }
+
+  /**
+   * Create the join tables of new links, empty retargeted ones and drop the
+   * tables of removed links. Returns whether anything changed.
+   */
+  private async migrateLinkTables(model: ModelDefinition, plan?: MigrationPlan): Promise<boolean> {
+    const prefix = this.getLinkTableName(model, '')
+    const rows = await recordsDb.$queryRawUnsafe<{ name: string }[]>(
+      `SELECT name FROM sqlite_master WHERE type = 'table'`
+    )
+    const existing = new Set<string>(rows.map(row => row.name).filter(name => name.startsWith(prefix)))
+    const expected = new Set((model.links || []).map(link => this.getLinkTableName(model, link.name)))
+    let changed = false
+
+    for (const tableName of existing) {
+      if (!expected.has(tableName)) {
+        await recordsDb.$executeRawUnsafe(`DROP TABLE ${quoteIdentifier(tableName)}`)
+        changed = true
+      }
+    }
+
+    for (const link of model.links || []) {
+      const tableName = this.getLinkTableName(model, link.name)
+      if (!existing.has(tableName)) {
+        await this.ensureLinkTable(model, link.name)
+        changed = true
+      } else if (plan?.clearedLinks.includes(link.name)) {
+        await recordsDb.$executeRawUnsafe(`DELETE FROM ${quoteIdentifier(tableName)}`)
+        changed = true
+      }
+    }
+
+    return changed
+  }
+
+  /**
+   * SQLite cannot add constraints to existing columns, so a changed table is
+   * rebuilt: create the new shape, copy the surviving columns, swap the tables.
+   */
+  private async rebuildTable(
+    model: ModelDefinition,
+    tableName: string,
+    actual: ColumnSpec[],
+    plan?: MigrationPlan
+  ): Promise<void> {
+    const tempName = `${tableName}__migration`
+    const existingColumns = new Set(actual.map(column => column.name))
+    const sources: Record<string, string> = { id: 'id', createdAt: 'createdAt', updatedAt: 'updatedAt', deletedAt: 'deletedAt' }
+
+    for (const column of this.getColumnSpecs(model)) {
+      if (column.name in sources) {
+        continue
+      }
+      if (plan) {
+        if (plan.columnSources[column.name]) {
+          sources[column.name] = plan.columnSources[column.name]
+        }
+      } else {
+        sources[column.name] = column.name
+      }
+    }
+
+    const copied = Object.entries(sources).filter(([target, source]) =>
+      existingColumns.has(source) && (target !== 'deletedAt' || !!model.softDelete)
+    )
+    const targetColumns = copied.map(([target]) => quoteIdentifier(target)).join(', ')
+    const sourceColumns = copied.map(([, source]) => quoteIdentifier(source)).join(', ')
+    // Turning soft delete off purges the trash rather than bringing it back
+    const where = existingColumns.has('deletedAt') && !model.softDelete
+      ? ` WHERE ${quoteIdentifier('deletedAt')} IS NULL`
+      : ''
+
+    try {
+      await recordsDb.$transaction([
+        recordsDb.$executeRawUnsafe(`DROP TABLE IF EXISTS ${quoteIdentifier(tempName)}`),
+        recordsDb.$executeRawUnsafe(this.generateCreateTableSql(model, tempName)),
+        recordsDb.$executeRawUnsafe(
+          `INSERT INTO ${quoteIdentifier(tempName)} (${targetColumns}) SELECT ${sourceColumns} FROM ${quoteIdentifier(tableName)}${where}`
+        ),
+        recordsDb.$executeRawUnsafe(`DROP TABLE ${quoteIdentifier(tableName)}`),
+        recordsDb.$executeRawUnsafe(`ALTER TABLE ${quoteIdentifier(tempName)} RENAME TO ${quoteIdentifier(tableName)}`),
+      ])
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      const constraint = message.match(/(UNIQUE|NOT NULL) constraint failed: [^\s`]+/)
+      if (constraint) {
+        throw new SchemaError(`Existing records violate the new definition (${constraint[0]})`)
+      }
+      throw error
+    }
+  }
+
+  private async readColumnSpecs(tableName: string): Promise<ColumnSpec[]> {
+    const table = quoteIdentifier(tableName)
+    const info = await recordsDb.$queryRawUnsafe<{
+      name: string
+      type: string
+      notnull: number | bigint
+      dflt_value: string | null
+      pk: number | bigint
+    }[]>(`PRAGMA table_info(${table})`)
+
+    const uniqueColumns = new Set<string>()
+    const indexes = await recordsDb.$queryRawUnsafe<{ name: string; unique: number | bigint; origin: string }[]>(
+      `PRAGMA index_list(${table})`
+    )
+    for (const index of indexes) {
+      if (Number(index.unique) !== 1 || index.origin !== 'u') {
+        continue
+      }
+      const indexColumns = await recordsDb.$queryRawUnsafe<{ name: string }[]>(
+        `PRAGMA index_info(${quoteIdentifier(index.name)})`
+      )
+      if (indexColumns.length === 1) {
+        uniqueColumns.add(indexColumns[0].name)
+      }
+    }
+
+    return info.map(column => ({
+      name: column.name,
+      type: column.type.toUpperCase() as ColumnSpec['type'],
+      notNull: Number(column.notnull) === 1,
+      unique: uniqueColumns.has(column.name),
+      primaryKey: Number(column.pk) > 0,
+      defaultValue: column.dflt_value,
+    }))
+  }
+
+  private sameColumns(expected: ColumnSpec[], actual: ColumnSpec[]): boolean {
+    if (expected.length !== actual.length) {
+      return false
+    }
+
+    return expected.every(column => {
+      const match = actual.find(candidate => candidate.name === column.name)
+      return (
+        !!match &&
+        match.type === column.type &&
+        match.notNull === column.notNull &&
+        match.unique === column.unique &&
+        match.primaryKey === column.primaryKey &&
+        match.defaultValue === column.defaultValue
+      )
+    })
+  }
+
+  private getColumnType(field: FieldDefinition): ColumnSpec['type'] {
+    switch (field.type) {
+      case 'number':
+      case 'decimal':
+        return 'REAL'
+      case 'integer':
+      case 'boolean':
+        return 'INTEGER'
+      case 'string':
+      case 'text':
+      case 'email':
+      case 'url':
+      case 'enum':
+      case 'date':
+      case 'dateOnly':
+      case 'json':
+      case 'relation':
+        return 'TEXT'
+      default:
+        throw new SchemaError(`Field '${field.name}' has unsupported type '${field.type}'`)
+    }
+  }
+
+  /**
+   * Render a field default as a SQL literal of the column's type
+   */
+  private getDefaultLiteral(field: FieldDefinition): string | null {
+    if (field.default === undefined || field.default === '') {
+      return null
+    }
+
+    switch (field.type) {
+      case 'number': {
+        const number = Number(field.default)
+        if (Number.isNaN(number)) {
+          throw new SchemaError(`Default of field '${field.name}' must be a number`)
+        }
+        return String(number)
+      }
+      case 'integer': {
+        const number = Number(field.default)
+        if (!Number.isSafeInteger(number)) {
+          throw new SchemaError(`Default of field '${field.name}' must be a whole number`)
+        }
+        return String(number)
+      }
+      case 'decimal': {
+        const number = Number(field.default)
+        if (Number.isNaN(number) || !fitsDecimal(field, number)) {
+          throw new SchemaError(`Default of field '${field.name}' must be a number with ${describeDecimal(field)}`)
+        }
+        return String(number)
+      }
+      case 'boolean':
+        if (field.default !== 'true' && field.default !== 'false') {
+          throw new SchemaError(`Default of field '${field.name}' must be true or false`)
+        }
+        return field.default === 'true' ? '1' : '0'
+      case 'date': {
+        const date = new Date(field.default)
+        if (Number.isNaN(date.getTime())) {
+          throw new SchemaError(`Default of field '${field.name}' must be a valid date`)
+        }
+        return `'${date.toISOString()}'`
+      }
+      case 'dateOnly':
+        if (!isDateOnly(field.default)) {
+          throw new SchemaError(`Default of field '${field.name}' must be a date as YYYY-MM-DD`)
+        }
+        break
+      case 'email':
+        if (!isEmail(field.default)) {
+          throw new SchemaError(`Default of field '${field.name}' must be an email address`)
+        }
+        break
+      case 'url':
+        if (!isUrl(field.default)) {
+          throw new SchemaError(`Default of field '${field.name}' must be an http or https URL`)
+        }
+        break
+      case 'enum':
+        if (!field.options?.includes(field.default)) {
+          throw new SchemaError(`Default of field '${field.name}' must be one of its options`)
+        }
+        break
+      case 'json':
+        try {
+          return `'${JSON.stringify(JSON.parse(field.default)).replace(/'/g, "''")}'`
+        } catch {
+          throw new SchemaError(`Default of field '${field.name}' must be valid JSON`)
+        }
+    }
+
+    return `'${field.default.replace(/'/g, "''")}'`
+  }
+}
+
+export const schemaManager = new SchemaManager()
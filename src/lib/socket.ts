@@ -1,6 +1,17 @@
 import { Server } from 'socket.io';
+import { InvalidModelFile, ModelChange, modelPersistence } from '@/lib/model-persistence';
 
 export const setupSocket = (io: Server) => {
+  // Tell every client when a model is published, edited on disk or removed,
+  // and when an edited file is rejected. Clients are not authenticated, so
+  // only names go out; definitions hold permissions and row-level policies.
+  modelPersistence.on('change', ({ name, action }: ModelChange) => {
+    io.emit('model:changed', { name, action });
+  });
+  modelPersistence.on('invalid', ({ file }: InvalidModelFile) => {
+    io.emit('model:invalid', { file });
+  });
+
   io.on('connection', (socket) => {
     console.log('Client connected:', socket.id);
     
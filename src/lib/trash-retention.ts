@@ -0,0 +1,66 @@
+import { auditLog } from '@/lib/audit'
+import { modelPersistence } from '@/lib/model-persistence'
+import { recordStore } from '@/lib/record-store'
+import { recordVersions } from '@/lib/record-versions'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const CHECK_INTERVAL_MS = 60 * 60 * 1000
+
+export class TrashRetentionJob {
+  private timer: ReturnType<typeof setInterval> | null = null
+
+  /**
+   * Purge the records that have been in the trash longer than the retention
+   * period of their model. Returns how many records were purged.
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    let purged = 0
+
+    for (const model of await modelPersistence.loadAllModels()) {
+      if (!model.softDelete || !model.retentionDays) {
+        continue
+      }
+
+      try {
+        const ids = await recordStore.purgeDeletedBefore(model, new Date(now.getTime() - model.retentionDays * DAY_MS))
+        if (ids.length === 0) {
+          continue
+        }
+
+        await recordVersions.discard(model, ids)
+        for (const id of ids) {
+          await auditLog.record(null, { entity: 'record', model: model.name, recordId: id, action: 'purge' })
+        }
+        purged += ids.length
+      } catch (error) {
+        console.error(`Error purging the trash of ${model.name}:`, error)
+      }
+    }
+
+    return purged
+  }
+
+  /**
+   * Purge now and then every hour until stopped
+   */
+  start(intervalMs: number = CHECK_INTERVAL_MS): void {
+    if (this.timer) {
+      return
+    }
+
+    const run = () => {
+      this.purgeExpired().catch(error => console.error('Error running trash retention:', error))
+    }
+    run()
+    this.timer = setInterval(run, intervalMs)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+}
+
+export const trashRetention = new TrashRetentionJob()
@@ -0,0 +1,6 @@
+export { default } from 'next-auth/middleware'
+
+// API routes answer 401 themselves; only pages redirect to the sign-in form
+export const config = {
+  matcher: ['/'],
+}
\ No newline at end of file
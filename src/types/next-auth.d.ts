@@ -0,0 +1,31 @@
+import 'next-auth'
+import 'next-auth/jwt'
+
+declare module 'next-auth' {
+  interface Session {
+    user: {
+      id: string
+      email: string
+      name?: string | null
+      role: string
+      // Captured at sign-in; the server re-checks the role on every request
+      isAdmin: boolean
+      permissions: string[]
+    }
+  }
+
+  interface User {
+    role: string
+    isAdmin: boolean
+    permissions: string[]
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    id: string
+    role: string
+    isAdmin: boolean
+    permissions: string[]
+  }
+}